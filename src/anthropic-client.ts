@@ -0,0 +1,359 @@
+import { ProviderError, ProviderUnavailableError } from "./errors.js";
+import {
+  BaseLLMClient,
+  type ChatDelta,
+  type ChatOptions,
+  type ChatResult,
+  type ClientOptions,
+  type TimedResponse,
+  readServerSentEvents,
+  resolveReasoning,
+  reusableReasoningDetails,
+} from "./llm-client.js";
+import { logger } from "./logger.js";
+import type { ChatMessage, ReasoningDetails, TokenUsage } from "./types.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 8192;
+/** Smallest thinking budget the Messages API accepts */
+const MIN_THINKING_BUDGET = 1024;
+/** Tokens left for the answer when the thinking budget is cut down to fit max_tokens */
+const MIN_ANSWER_TOKENS = 1024;
+
+export interface AnthropicClientOptions extends ClientOptions {
+  /** Required by the Messages API; the thinking budget is cut down to fit under it */
+  maxOutputTokens?: number;
+}
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | Record<string, unknown>[];
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "thinking"; thinking: string; signature?: string }
+  | { type: "redacted_thinking"; data?: string };
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/**
+ * Client for the Anthropic Messages API, spoken directly over fetch
+ */
+export class AnthropicClient extends BaseLLMClient {
+  protected readonly providerName = "Anthropic";
+  private apiKey: string;
+  private baseUrl: string;
+  private maxOutputTokens: number;
+
+  constructor(
+    apiKey: string,
+    baseUrl = "https://api.anthropic.com/v1",
+    options: AnthropicClientOptions = {}
+  ) {
+    super(options);
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.maxOutputTokens = options.maxOutputTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  /**
+   * Map the history to Messages API turns, merging consecutive messages from the same role
+   * The API rejects conversations that do not alternate between user and assistant.
+   * Signed thinking blocks stored with earlier replies go back ahead of their text.
+   */
+  private toAnthropicMessages(
+    modelName: string,
+    messages: ChatMessage[],
+    options: ChatOptions
+  ): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+    for (const msg of messages) {
+      const previous = result[result.length - 1];
+      if (previous && previous.role === msg.role) {
+        // Thinking must lead the turn, so a merged message only contributes its text
+        if (typeof previous.content === "string") {
+          previous.content += `\n\n${msg.content}`;
+        } else {
+          previous.content.push({ type: "text", text: msg.content });
+        }
+        continue;
+      }
+
+      const thinking = reusableReasoningDetails(msg, modelName, options);
+      result.push({
+        role: msg.role,
+        content: thinking ? [...thinking, { type: "text", text: msg.content }] : msg.content,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Tag thinking blocks with the model that signed them
+   */
+  private toReasoningDetails(
+    blocks: AnthropicContentBlock[],
+    modelName: string
+  ): ReasoningDetails | undefined {
+    const thinking = blocks.filter((block) => block.type !== "text");
+    if (!thinking.length) {
+      return undefined;
+    }
+    return { provider: "anthropic", modelName, blocks: thinking };
+  }
+
+  private toUsage(usage: AnthropicUsage | undefined): TokenUsage | undefined {
+    if (usage?.input_tokens === undefined || usage.output_tokens === undefined) {
+      return undefined;
+    }
+    return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens };
+  }
+
+  /**
+   * Build the request body, enabling extended thinking when reasoning is requested or configured
+   * The Messages API has no seed or reasoning effort, so those settings are not sent.
+   */
+  private buildBody(
+    modelName: string,
+    messages: ChatMessage[],
+    options: ChatOptions
+  ): Record<string, unknown> {
+    const generation = options.generation ?? {};
+    const reasoning = resolveReasoning(options);
+    const maxTokens = generation.maxTokens ?? this.maxOutputTokens;
+    const body: Record<string, unknown> = {
+      model: modelName,
+      max_tokens: maxTokens,
+      messages: this.toAnthropicMessages(modelName, messages, options),
+    };
+
+    if (options.systemPrompt) {
+      body.system = options.systemPrompt;
+    }
+    if (generation.stop?.length) {
+      body.stop_sequences = generation.stop;
+    }
+
+    if (reasoning.enabled) {
+      // The thinking budget counts towards max_tokens, so it is cut down to leave room for the answer
+      const maxBudget = maxTokens - MIN_ANSWER_TOKENS;
+      if (maxBudget < MIN_THINKING_BUDGET) {
+        throw new Error(
+          `maxTokens of ${maxTokens} is too small for extended thinking; allow at least ${MIN_THINKING_BUDGET + MIN_ANSWER_TOKENS} or turn reasoning off`
+        );
+      }
+      const requested = Math.max(
+        MIN_THINKING_BUDGET,
+        reasoning.budgetTokens ?? Math.floor(maxTokens / 2)
+      );
+      const budget = Math.min(requested, maxBudget);
+      if (budget < requested) {
+        logger.debug("Reduced thinking budget to fit max_tokens", {
+          model: modelName,
+          requested,
+          budget,
+          maxTokens,
+        });
+      }
+      body.thinking = { type: "enabled", budget_tokens: budget };
+      // Sampling settings are rejected while thinking is enabled
+      if (generation.temperature !== undefined || generation.topP !== undefined) {
+        logger.debug("Ignoring temperature and topP for Anthropic request with thinking", {
+          model: modelName,
+        });
+      }
+    } else {
+      if (generation.temperature !== undefined) {
+        body.temperature = generation.temperature;
+      }
+      if (generation.topP !== undefined) {
+        body.top_p = generation.topP;
+      }
+    }
+
+    if (options.onProgress) {
+      body.stream = true;
+    }
+
+    return body;
+  }
+
+  /**
+   * POST to the Messages endpoint with the client timeout and the caller's signal
+   */
+  private post(
+    modelName: string,
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<TimedResponse> {
+    return this.postJson(
+      `${this.baseUrl}/messages`,
+      { "x-api-key": this.apiKey, "anthropic-version": ANTHROPIC_VERSION },
+      body,
+      modelName,
+      signal
+    );
+  }
+
+  protected errorDetail(data: unknown): string | undefined {
+    const error = (data as { error?: { type?: string; message?: string } }).error;
+    return error?.message ? `${error.type ?? "error"}: ${error.message}` : undefined;
+  }
+
+  /**
+   * Make a single Messages request, streamed if the caller wants progress
+   */
+  protected async complete(
+    modelName: string,
+    messages: ChatMessage[],
+    options: ChatOptions
+  ): Promise<ChatResult> {
+    const body = this.buildBody(modelName, messages, options);
+
+    if (options.onProgress) {
+      const streamed = await this.streamCompletion(
+        modelName,
+        body,
+        options.onProgress,
+        options.signal
+      );
+      return {
+        ...streamed,
+        reasoning: resolveReasoning(options).exclude ? undefined : streamed.reasoning,
+      };
+    }
+
+    const { response, done } = await this.post(modelName, body, options.signal);
+    let data: { content?: AnthropicContentBlock[]; usage?: AnthropicUsage };
+    try {
+      data = (await response.json()) as typeof data;
+    } finally {
+      done();
+    }
+
+    const blocks = data.content ?? [];
+    const content = blocks.map((block) => (block.type === "text" ? block.text : "")).join("");
+    if (!content) {
+      throw new Error("No content in response from Anthropic");
+    }
+
+    logger.debug("Received response from Anthropic", {
+      model: modelName,
+      inputTokens: data.usage?.input_tokens,
+      outputTokens: data.usage?.output_tokens,
+    });
+
+    const reasoning = blocks
+      .map((block) => (block.type === "thinking" ? block.thinking : ""))
+      .filter(Boolean)
+      .join("\n");
+
+    return {
+      content,
+      reasoning: !resolveReasoning(options).exclude && reasoning ? reasoning : undefined,
+      reasoningDetails: this.toReasoningDetails(blocks, modelName),
+      usage: this.toUsage(data.usage),
+    };
+  }
+
+  /**
+   * Stream a Messages response, reporting text and thinking deltas as they arrive
+   */
+  private async streamCompletion(
+    modelName: string,
+    body: Record<string, unknown>,
+    onProgress: (delta: ChatDelta) => void,
+    signal?: AbortSignal
+  ): Promise<ChatResult> {
+    const { response, done } = await this.post(modelName, body, signal);
+
+    let content = "";
+    let reasoning = "";
+    // Thinking blocks are rebuilt from their deltas so they can be sent back with the signature
+    const blocks: AnthropicContentBlock[] = [];
+    const usage: AnthropicUsage = {};
+
+    try {
+      for await (const event of readServerSentEvents(response)) {
+        if (event.type === "message_start") {
+          Object.assign(usage, (event.message as { usage?: AnthropicUsage }).usage);
+        } else if (event.type === "message_delta") {
+          Object.assign(usage, event.usage as AnthropicUsage | undefined);
+        } else if (event.type === "content_block_start") {
+          blocks[event.index as number] = {
+            ...(event.content_block as AnthropicContentBlock),
+          };
+        }
+
+        if (event.type === "error") {
+          const error = event.error as { type?: string; message?: string } | undefined;
+          const detail = `${error?.type ?? "error"}: ${error?.message ?? "stream failed"}`;
+          throw error?.type === "overloaded_error"
+            ? new ProviderUnavailableError(modelName, detail)
+            : new ProviderError(`Anthropic stream failed: ${detail}`, modelName);
+        }
+        if (event.type !== "content_block_delta") {
+          continue;
+        }
+
+        const delta = event.delta as {
+          type?: string;
+          text?: string;
+          thinking?: string;
+          signature?: string;
+        };
+        const contentDelta = delta.type === "text_delta" ? (delta.text ?? "") : "";
+        const reasoningDelta = delta.type === "thinking_delta" ? (delta.thinking ?? "") : "";
+
+        const block = blocks[event.index as number];
+        if (block?.type === "thinking") {
+          block.thinking += reasoningDelta;
+          if (delta.type === "signature_delta") {
+            block.signature = (block.signature ?? "") + (delta.signature ?? "");
+          }
+        }
+
+        if (contentDelta || reasoningDelta) {
+          content += contentDelta;
+          reasoning += reasoningDelta;
+          onProgress({ content: contentDelta, reasoning: reasoningDelta });
+        }
+      }
+    } finally {
+      done();
+    }
+
+    this.throwIfAborted(signal);
+
+    if (!content) {
+      throw new Error("No content in response from Anthropic");
+    }
+
+    logger.debug("Received streamed response from Anthropic", {
+      model: modelName,
+      contentLength: content.length,
+      reasoningLength: reasoning.length,
+    });
+
+    return {
+      content,
+      reasoning: reasoning || undefined,
+      reasoningDetails: this.toReasoningDetails(blocks.filter(Boolean), modelName),
+      usage: this.toUsage(usage),
+    };
+  }
+
+  protected async ping(modelName: string): Promise<void> {
+    const { response, done } = await this.post(modelName, {
+      model: modelName,
+      max_tokens: 1,
+      messages: [{ role: "user", content: "ping" }],
+    });
+    done();
+    await response.body?.cancel();
+  }
+}
@@ -0,0 +1,226 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as readline from "node:readline";
+import { logger } from "./logger.js";
+import type { AttachmentConfig, AttachmentInfo } from "./types.js";
+
+const DEFAULT_MAX_FILE_BYTES = 100_000;
+const DEFAULT_MAX_TOTAL_BYTES = 300_000;
+
+/**
+ * A file, part of a file, or a snippet sent along with a chat message
+ */
+export interface Attachment {
+  /** Absolute path of a file under one of the allowed roots */
+  path?: string;
+  /** Lines of the file to include, counted from 1; the whole file if unset */
+  startLine?: number;
+  endLine?: number;
+  /** Text to attach instead of a file */
+  content?: string;
+  /** Tag for the code block; taken from the file extension if unset */
+  language?: string;
+}
+
+export interface LoadedAttachment {
+  info: AttachmentInfo;
+  content: string;
+}
+
+/**
+ * Reads attached files from the allowed roots and checks attachments against the size caps
+ */
+export class AttachmentLoader {
+  private allowedRoots: string[];
+  private maxFileBytes: number;
+  private maxTotalBytes: number;
+
+  constructor(config?: AttachmentConfig) {
+    this.allowedRoots = config?.allowedRoots ?? [];
+    this.maxFileBytes = config?.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+    this.maxTotalBytes = config?.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+  }
+
+  /**
+   * Read every attachment, failing on the first one that is not allowed or too large
+   */
+  async load(attachments: Attachment[]): Promise<LoadedAttachment[]> {
+    const loaded: LoadedAttachment[] = [];
+    for (const attachment of attachments) {
+      loaded.push(await this.loadOne(attachment));
+    }
+
+    const totalBytes = loaded.reduce((sum, a) => sum + a.info.bytes, 0);
+    if (totalBytes > this.maxTotalBytes) {
+      throw new Error(
+        `Attachments total ${totalBytes} bytes, over the limit of ${this.maxTotalBytes}; attach line ranges instead of whole files`
+      );
+    }
+
+    logger.debug("Loaded attachments", { count: loaded.length, totalBytes });
+    return loaded;
+  }
+
+  private async loadOne(attachment: Attachment): Promise<LoadedAttachment> {
+    if ((attachment.path === undefined) === (attachment.content === undefined)) {
+      throw new Error("Each attachment needs either a path or content, not both");
+    }
+
+    if (attachment.content !== undefined) {
+      if (attachment.startLine !== undefined || attachment.endLine !== undefined) {
+        throw new Error("Line ranges only apply to file attachments");
+      }
+      const bytes = Buffer.byteLength(attachment.content);
+      if (bytes > this.maxFileBytes) {
+        throw new Error(`Snippet is ${bytes} bytes, over the limit of ${this.maxFileBytes}`);
+      }
+      return {
+        info: { language: attachment.language, bytes },
+        content: attachment.content,
+      };
+    }
+
+    return this.loadFile(attachment.path as string, attachment);
+  }
+
+  private async loadFile(filePath: string, attachment: Attachment): Promise<LoadedAttachment> {
+    const { startLine, endLine } = attachment;
+    if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+      throw new Error(`endLine ${endLine} is before startLine ${startLine}`);
+    }
+
+    const resolved = await this.resolveAllowedPath(filePath);
+    const stats = await fs.promises.stat(resolved);
+    if (!stats.isFile()) {
+      throw new Error(`Not a file: ${filePath}`);
+    }
+
+    const language = attachment.language ?? (path.extname(resolved).slice(1) || undefined);
+    let content: string;
+    let range: Pick<AttachmentInfo, "startLine" | "endLine"> = {};
+
+    if (startLine === undefined && endLine === undefined) {
+      if (stats.size > this.maxFileBytes) {
+        throw new Error(
+          `${filePath} is ${stats.size} bytes, over the limit of ${this.maxFileBytes}; attach a line range instead`
+        );
+      }
+      content = await fs.promises.readFile(resolved, "utf-8");
+    } else {
+      const lines = await this.readLines(resolved, startLine ?? 1, endLine);
+      content = lines.content;
+      range = { startLine: startLine ?? 1, endLine: lines.endLine };
+    }
+
+    if (content.includes("\u0000")) {
+      throw new Error(`${filePath} looks like a binary file`);
+    }
+
+    return {
+      info: { path: resolved, ...range, language, bytes: Buffer.byteLength(content) },
+      content,
+    };
+  }
+
+  /**
+   * Read a range of lines without loading the rest of the file
+   * The range ends early at the end of the file.
+   */
+  private async readLines(
+    filePath: string,
+    startLine: number,
+    endLine: number | undefined
+  ): Promise<{ content: string; endLine: number }> {
+    const stream = fs.createReadStream(filePath, { encoding: "utf-8" });
+    const reader = readline.createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY });
+    const lines: string[] = [];
+    let lineNumber = 0;
+    let bytes = 0;
+
+    try {
+      for await (const line of reader) {
+        lineNumber++;
+        if (lineNumber < startLine) continue;
+        if (endLine !== undefined && lineNumber > endLine) break;
+
+        bytes += Buffer.byteLength(line) + 1;
+        if (bytes > this.maxFileBytes) {
+          throw new Error(
+            `Lines ${startLine}-${endLine ?? "end"} of ${filePath} are over the limit of ${this.maxFileBytes} bytes`
+          );
+        }
+        lines.push(line);
+      }
+    } finally {
+      reader.close();
+      stream.destroy();
+    }
+
+    if (lines.length === 0) {
+      throw new Error(`${filePath} has only ${lineNumber} lines`);
+    }
+    return { content: lines.join("\n"), endLine: startLine + lines.length - 1 };
+  }
+
+  /**
+   * Resolve symlinks and make sure the file is under one of the allowed roots
+   */
+  private async resolveAllowedPath(filePath: string): Promise<string> {
+    if (this.allowedRoots.length === 0) {
+      throw new Error(
+        "File attachments are disabled; add directories to attachments.allowedRoots in the config, or attach the content instead"
+      );
+    }
+    if (!path.isAbsolute(filePath)) {
+      throw new Error(`Attachment path must be absolute: ${filePath}`);
+    }
+
+    let resolved: string;
+    try {
+      resolved = await fs.promises.realpath(filePath);
+    } catch {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    for (const root of this.allowedRoots) {
+      const resolvedRoot = await fs.promises.realpath(root).catch(() => null);
+      if (!resolvedRoot) continue;
+      const relative = path.relative(resolvedRoot, resolved);
+      // Only a leading ".." segment leaves the root; names like "..env" are inside it
+      const outside =
+        relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative);
+      if (!outside) {
+        return resolved;
+      }
+    }
+
+    throw new Error(`${filePath} is outside the allowed attachment roots`);
+  }
+}
+
+/**
+ * Append attachments to a message as fenced code blocks
+ */
+export function formatWithAttachments(message: string, attachments: LoadedAttachment[]): string {
+  if (attachments.length === 0) {
+    return message;
+  }
+
+  const blocks = attachments.map(({ info, content }) => {
+    // The fence must be longer than any run of backticks in the content
+    const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(Math.max(3, longestRun + 1));
+    return `${describe(info)}\n${fence}${info.language ?? ""}\n${content.replace(/\n$/, "")}\n${fence}`;
+  });
+
+  return `${message}\n\n${blocks.join("\n\n")}`;
+}
+
+function describe(info: AttachmentInfo): string {
+  if (!info.path) {
+    return "Snippet:";
+  }
+  return info.startLine !== undefined
+    ? `File ${info.path}, lines ${info.startLine}-${info.endLine}:`
+    : `File ${info.path}:`;
+}
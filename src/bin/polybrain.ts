@@ -1,13 +1,9 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { loadConfig } from "../config.js";
-import { ConversationManager } from "../conversation-manager.js";
 import { ServerLauncher } from "../launcher.js";
 import { logger, setLogLevel } from "../logger.js";
-import { registerTools } from "../mcp-tools.js";
-import { OpenAIClient } from "../openai-client.js";
+import { StdioProxy } from "../stdio-proxy.js";
 
 /**
  * Log only if debug mode is enabled via POLYBRAIN_DEBUG env var
@@ -75,31 +71,20 @@ async function main(): Promise<void> {
     const launcher = new ServerLauncher(config.httpPort);
     await launcher.ensureServerRunning();
 
-    debugLog("debug", "HTTP server is ready, starting MCP stdio mode");
+    debugLog("debug", "HTTP server is ready, starting MCP stdio proxy");
 
-    // Initialize conversation manager
-    const conversationManager = new ConversationManager(config.truncateLimit);
-
-    // Initialize OpenAI clients for each model
-    const openaiClients = new Map<string, OpenAIClient>();
-    for (const model of config.models) {
-      openaiClients.set(model.id, new OpenAIClient(model.apiKey, model.baseUrl));
-    }
-
-    // Create MCP server
-    const mcpServer = new McpServer({
-      name: "polybrain",
-      version: "1.0.0",
-    });
-
-    // Register tools
-    registerTools(mcpServer, conversationManager, openaiClients, config);
-
-    // Connect via stdio
-    const transport = new StdioServerTransport();
-    await mcpServer.connect(transport);
+    // Relay stdio to the shared HTTP server so all sessions share one conversation store
+    const proxy = new StdioProxy(config.httpPort, launcher);
+    proxy.onerror = (error) => {
+      debugLog("error", "MCP proxy error", error);
+    };
+    proxy.onclose = () => {
+      debugLog("debug", "MCP proxy closed");
+      process.exit(0);
+    };
+    await proxy.start();
 
-    debugLog("debug", "MCP server connected via stdio");
+    debugLog("debug", "MCP proxy connected via stdio", { port: config.httpPort });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -0,0 +1,156 @@
+import { BudgetExceededError } from "./errors.js";
+import { logger } from "./logger.js";
+import type { BudgetConfig, BudgetLimits, ModelConfig } from "./types.js";
+import { type UsageTotals, type UsageTracker, nextUtcMidnight } from "./usage-tracker.js";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Refuses requests that would go over the configured spending and rate limits
+ * Spending is checked against what was already used, so the request that crosses a limit
+ * still goes through and the next one is refused.
+ */
+export class BudgetGuard {
+  private budgets: BudgetConfig;
+  private usageTracker: UsageTracker;
+  /** Start times of requests in the last minute, for all models and per model */
+  private recentRequests: number[] = [];
+  private recentModelRequests = new Map<string, number[]>();
+
+  constructor(budgets: BudgetConfig | undefined, usageTracker: UsageTracker) {
+    this.budgets = budgets ?? {};
+    this.usageTracker = usageTracker;
+  }
+
+  /**
+   * Check every limit that applies and count the request towards the rate limits
+   * Throws BudgetExceededError without counting the request if any limit is reached.
+   */
+  admit(model: ModelConfig, conversationId?: string): void {
+    const now = Date.now();
+    const recent = prune(this.recentRequests, now);
+    const recentForModel = prune(this.recentModelRequests.get(model.id) ?? [], now);
+
+    this.checkLimits(this.budgets, this.usageTracker.getToday(), recent, now, {
+      scope: "server",
+      label: "all models",
+    });
+    if (model.budget) {
+      this.checkLimits(model.budget, this.usageTracker.getToday(model.id), recentForModel, now, {
+        scope: "model",
+        label: `model ${model.id}`,
+      });
+    }
+    if (conversationId) {
+      this.checkConversation(conversationId);
+    }
+
+    recent.push(now);
+    recentForModel.push(now);
+    this.recentRequests = recent;
+    this.recentModelRequests.set(model.id, recentForModel);
+  }
+
+  /**
+   * Check a fallback model's own limits before a turn moves on to it, and count the request
+   * The server and conversation limits were checked when the turn was admitted.
+   */
+  admitFallback(model: ModelConfig): void {
+    const now = Date.now();
+    const recentForModel = prune(this.recentModelRequests.get(model.id) ?? [], now);
+
+    if (model.budget) {
+      this.checkLimits(model.budget, this.usageTracker.getToday(model.id), recentForModel, now, {
+        scope: "model",
+        label: `model ${model.id}`,
+      });
+    }
+
+    recentForModel.push(now);
+    this.recentModelRequests.set(model.id, recentForModel);
+  }
+
+  private checkLimits(
+    limits: BudgetLimits,
+    today: UsageTotals,
+    recent: number[],
+    now: number,
+    target: { scope: "server" | "model"; label: string }
+  ): void {
+    const { scope, label } = target;
+    const tokens = today.inputTokens + today.outputTokens;
+    const cost = today.cost ?? 0;
+
+    if (limits.maxRequestsPerMinute !== undefined && recent.length >= limits.maxRequestsPerMinute) {
+      this.refuse(
+        `Rate limit of ${limits.maxRequestsPerMinute} requests per minute reached for ${label}`,
+        {
+          scope,
+          limit: "maxRequestsPerMinute",
+          max: limits.maxRequestsPerMinute,
+          used: recent.length,
+          resetsAt: recent[0] + MINUTE_MS,
+        }
+      );
+    }
+    if (limits.maxTokensPerDay !== undefined && tokens >= limits.maxTokensPerDay) {
+      this.refuse(`Daily budget of ${limits.maxTokensPerDay} tokens reached for ${label}`, {
+        scope,
+        limit: "maxTokensPerDay",
+        max: limits.maxTokensPerDay,
+        used: tokens,
+        resetsAt: nextUtcMidnight(now),
+      });
+    }
+    if (limits.maxCostPerDay !== undefined && cost >= limits.maxCostPerDay) {
+      this.refuse(`Daily budget of $${limits.maxCostPerDay} reached for ${label}`, {
+        scope,
+        limit: "maxCostPerDay",
+        max: limits.maxCostPerDay,
+        used: cost,
+        resetsAt: nextUtcMidnight(now),
+      });
+    }
+  }
+
+  private checkConversation(conversationId: string): void {
+    const limits = this.budgets.perConversation;
+    if (!limits) {
+      return;
+    }
+
+    const totals = this.usageTracker.getConversationSpend(conversationId);
+    const tokens = totals.inputTokens + totals.outputTokens;
+    if (limits.maxTokens !== undefined && tokens >= limits.maxTokens) {
+      this.refuse(`Budget of ${limits.maxTokens} tokens reached for this conversation`, {
+        scope: "conversation",
+        limit: "perConversation.maxTokens",
+        max: limits.maxTokens,
+        used: tokens,
+      });
+    }
+    if (limits.maxCost !== undefined && (totals.cost ?? 0) >= limits.maxCost) {
+      this.refuse(`Budget of $${limits.maxCost} reached for this conversation`, {
+        scope: "conversation",
+        limit: "perConversation.maxCost",
+        max: limits.maxCost,
+        used: totals.cost ?? 0,
+      });
+    }
+  }
+
+  private refuse(
+    message: string,
+    details: ConstructorParameters<typeof BudgetExceededError>[1]
+  ): never {
+    logger.warn("Request refused by budget", { ...details, message });
+    throw new BudgetExceededError(message, details);
+  }
+}
+
+/**
+ * Drop request times older than a minute
+ */
+function prune(times: number[], now: number): number[] {
+  return times.filter((time) => now - time < MINUTE_MS);
+}
@@ -2,10 +2,32 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import * as yaml from "js-yaml";
 import { logger } from "./logger.js";
-import type { LogLevel, ModelConfig, ServerConfig } from "./types.js";
+import type {
+  AttachmentConfig,
+  BackoffPolicy,
+  BudgetConfig,
+  BudgetLimits,
+  ContextStrategyName,
+  ConversationIdFormat,
+  GenerationParams,
+  HttpResponseMode,
+  LogLevel,
+  ModelConfig,
+  ModelFallback,
+  ModelPricing,
+  PersonaConfig,
+  ProviderType,
+  ReasoningConfig,
+  ReasoningEffort,
+  ServerConfig,
+  StorageConfig,
+  SummarizationConfig,
+} from "./types.js";
 
 type RawConfig = Record<string, unknown>;
 
+const PROVIDERS: ProviderType[] = ["openai", "openrouter", "anthropic", "gemini", "local"];
+
 /**
  * Resolve environment variable references in config values
  * Supports syntax like "${ENV_VAR_NAME}"
@@ -78,6 +100,66 @@ function loadConfigFile(): RawConfig | null {
   }
 }
 
+/**
+ * Validate the conversation ID format option
+ */
+function parseConversationIdFormat(format: unknown): ConversationIdFormat | undefined {
+  if (format === undefined || format === null || format === "") {
+    return undefined;
+  }
+  if (typeof format !== "string" || !["hex", "readable", "uuid"].includes(format)) {
+    throw new Error(
+      `Invalid conversationIdFormat '${String(format)}'. Must be 'hex', 'readable' or 'uuid'`
+    );
+  }
+  return format as ConversationIdFormat;
+}
+
+/**
+ * Validate the length of generated "hex" and "readable" conversation IDs
+ */
+function parseConversationIdLength(length: unknown): number | undefined {
+  if (length === undefined || length === null || length === "") {
+    return undefined;
+  }
+  const value = Number(length);
+  if (!(Number.isInteger(value) && value > 0)) {
+    throw new Error("'conversationIdLength' must be a positive integer");
+  }
+  return value;
+}
+
+/**
+ * Validate the context trimming strategy option
+ */
+function parseContextStrategy(strategy: unknown): ContextStrategyName | undefined {
+  if (strategy === undefined || strategy === null || strategy === "") {
+    return undefined;
+  }
+  if (
+    typeof strategy !== "string" ||
+    !["sliding-window", "head-tail", "drop-middle"].includes(strategy)
+  ) {
+    throw new Error(
+      `Invalid contextStrategy '${String(strategy)}'. Must be 'sliding-window', 'head-tail' or 'drop-middle'`
+    );
+  }
+  return strategy as ContextStrategyName;
+}
+
+/**
+ * Validate the HTTP response mode option
+ */
+function parseHttpResponseMode(mode: unknown): HttpResponseMode | undefined {
+  if (mode === undefined || mode === null || mode === "") {
+    return undefined;
+  }
+  if (typeof mode !== "string" || !["sse", "json"].includes(mode)) {
+    throw new Error(`Invalid httpResponseMode '${String(mode)}'. Must be 'sse' or 'json'`);
+  }
+  return mode as HttpResponseMode;
+}
+
 /**
  * Create a simple single-model config from environment variables
  */
@@ -95,9 +177,23 @@ function createSimpleConfig(): ServerConfig {
   const httpPort = process.env.POLYBRAIN_HTTP_PORT
     ? Number(process.env.POLYBRAIN_HTTP_PORT)
     : 32701;
+  const httpResponseMode = parseHttpResponseMode(process.env.POLYBRAIN_HTTP_RESPONSE_MODE);
   const truncateLimit = process.env.POLYBRAIN_TRUNCATE_LIMIT
     ? Number(process.env.POLYBRAIN_TRUNCATE_LIMIT)
     : 500;
+  const contextStrategy = parseContextStrategy(process.env.POLYBRAIN_CONTEXT_STRATEGY);
+  const conversationTtlMinutes = process.env.POLYBRAIN_CONVERSATION_TTL_MINUTES
+    ? Number(process.env.POLYBRAIN_CONVERSATION_TTL_MINUTES)
+    : undefined;
+  const maxConversations = process.env.POLYBRAIN_MAX_CONVERSATIONS
+    ? Number(process.env.POLYBRAIN_MAX_CONVERSATIONS)
+    : undefined;
+  const conversationIdFormat = parseConversationIdFormat(
+    process.env.POLYBRAIN_CONVERSATION_ID_FORMAT
+  );
+  const conversationIdLength = parseConversationIdLength(
+    process.env.POLYBRAIN_CONVERSATION_ID_LENGTH
+  );
   const logLevel = (process.env.POLYBRAIN_LOG_LEVEL || "info") as LogLevel;
 
   logger.debug("Using simple environment variable config", { modelName });
@@ -112,11 +208,362 @@ function createSimpleConfig(): ServerConfig {
       },
     ],
     httpPort,
+    httpResponseMode,
     truncateLimit,
+    contextStrategy,
+    conversationTtlMinutes,
+    maxConversations,
+    conversationIdFormat,
+    conversationIdLength,
     logLevel,
   };
 }
 
+/**
+ * Parse a model's optional backoff section
+ */
+function parseBackoffPolicy(rawBackoff: unknown): BackoffPolicy | undefined {
+  if (rawBackoff === undefined || rawBackoff === null) {
+    return undefined;
+  }
+  if (typeof rawBackoff !== "object") {
+    throw new Error("Model 'backoff' must be an object");
+  }
+
+  const b = rawBackoff as Record<string, unknown>;
+  return {
+    initialDelayMs: b.initialDelayMs !== undefined ? Number(b.initialDelayMs) : undefined,
+    maxDelayMs: b.maxDelayMs !== undefined ? Number(b.maxDelayMs) : undefined,
+    multiplier: b.multiplier !== undefined ? Number(b.multiplier) : undefined,
+  };
+}
+
+/**
+ * Parse and validate a model's optional generation defaults
+ */
+function parseGenerationParams(rawGeneration: unknown): GenerationParams | undefined {
+  if (rawGeneration === undefined || rawGeneration === null) {
+    return undefined;
+  }
+  if (typeof rawGeneration !== "object") {
+    throw new Error("Model 'generation' must be an object");
+  }
+
+  const g = rawGeneration as Record<string, unknown>;
+  const temperature = g.temperature !== undefined ? Number(g.temperature) : undefined;
+  const topP = g.topP !== undefined ? Number(g.topP) : undefined;
+  const maxTokens = g.maxTokens !== undefined ? Number(g.maxTokens) : undefined;
+  const seed = g.seed !== undefined ? Number(g.seed) : undefined;
+  const reasoningEffort = g.reasoningEffort as string | undefined;
+  const stop =
+    g.stop === undefined
+      ? undefined
+      : Array.isArray(g.stop)
+        ? g.stop.map(String)
+        : [String(g.stop)];
+
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    throw new Error("Generation 'temperature' must be between 0 and 2");
+  }
+  if (topP !== undefined && !(topP >= 0 && topP <= 1)) {
+    throw new Error("Generation 'topP' must be between 0 and 1");
+  }
+  if (maxTokens !== undefined && !(Number.isInteger(maxTokens) && maxTokens > 0)) {
+    throw new Error("Generation 'maxTokens' must be a positive integer");
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new Error("Generation 'seed' must be an integer");
+  }
+  if (reasoningEffort && !["low", "medium", "high"].includes(reasoningEffort)) {
+    throw new Error(
+      `Invalid reasoningEffort '${reasoningEffort}'. Must be 'low', 'medium' or 'high'`
+    );
+  }
+
+  return {
+    temperature,
+    topP,
+    maxTokens,
+    stop,
+    seed,
+    reasoningEffort: reasoningEffort as ReasoningEffort | undefined,
+  };
+}
+
+/**
+ * Parse and validate a model's optional reasoning section
+ */
+function parseReasoningConfig(rawReasoning: unknown): ReasoningConfig | undefined {
+  if (rawReasoning === undefined || rawReasoning === null) {
+    return undefined;
+  }
+  if (typeof rawReasoning !== "object") {
+    throw new Error("Model 'reasoning' must be an object");
+  }
+
+  const r = rawReasoning as Record<string, unknown>;
+  const effort = r.effort as string | undefined;
+  const maxTokens = r.maxTokens !== undefined ? Number(r.maxTokens) : undefined;
+  const exclude = r.exclude !== undefined ? Boolean(r.exclude) : undefined;
+
+  if (effort && !["low", "medium", "high"].includes(effort)) {
+    throw new Error(`Invalid reasoning effort '${effort}'. Must be 'low', 'medium' or 'high'`);
+  }
+  if (maxTokens !== undefined && !(Number.isInteger(maxTokens) && maxTokens > 0)) {
+    throw new Error("Reasoning 'maxTokens' must be a positive integer");
+  }
+
+  return {
+    effort: effort as ReasoningEffort | undefined,
+    maxTokens,
+    exclude,
+  };
+}
+
+/**
+ * Parse and validate a model's optional pricing section
+ */
+function parsePricing(rawPricing: unknown): ModelPricing | undefined {
+  if (rawPricing === undefined || rawPricing === null) {
+    return undefined;
+  }
+  if (typeof rawPricing !== "object") {
+    throw new Error("Model 'pricing' must be an object");
+  }
+
+  const p = rawPricing as Record<string, unknown>;
+  const inputPerMillion = Number(p.inputPerMillion);
+  const outputPerMillion = Number(p.outputPerMillion);
+  if (!(inputPerMillion >= 0) || !(outputPerMillion >= 0)) {
+    throw new Error(
+      "Model 'pricing' must have non-negative 'inputPerMillion' and 'outputPerMillion'"
+    );
+  }
+
+  return { inputPerMillion, outputPerMillion };
+}
+
+/**
+ * Parse and validate a set of spending and rate limits
+ */
+function parseBudgetLimits(rawLimits: Record<string, unknown>, section: string): BudgetLimits {
+  const limits: BudgetLimits = {};
+  for (const key of ["maxTokensPerDay", "maxCostPerDay", "maxRequestsPerMinute"] as const) {
+    if (rawLimits[key] === undefined || rawLimits[key] === null) continue;
+    const value = Number(rawLimits[key]);
+    if (!(value > 0)) {
+      throw new Error(`'${section}.${key}' must be a positive number`);
+    }
+    limits[key] = value;
+  }
+  return limits;
+}
+
+/**
+ * Parse the optional server-wide budgets section
+ */
+function parseBudgets(rawBudgets: unknown): BudgetConfig | undefined {
+  if (rawBudgets === undefined || rawBudgets === null) {
+    return undefined;
+  }
+  if (typeof rawBudgets !== "object") {
+    throw new Error("'budgets' must be an object");
+  }
+
+  const b = rawBudgets as Record<string, unknown>;
+  const budgets: BudgetConfig = parseBudgetLimits(b, "budgets");
+
+  if (b.perConversation !== undefined && b.perConversation !== null) {
+    if (typeof b.perConversation !== "object") {
+      throw new Error("'budgets.perConversation' must be an object");
+    }
+    const c = b.perConversation as Record<string, unknown>;
+    const maxTokens = c.maxTokens !== undefined ? Number(c.maxTokens) : undefined;
+    const maxCost = c.maxCost !== undefined ? Number(c.maxCost) : undefined;
+    if (maxTokens !== undefined && !(maxTokens > 0)) {
+      throw new Error("'budgets.perConversation.maxTokens' must be a positive number");
+    }
+    if (maxCost !== undefined && !(maxCost > 0)) {
+      throw new Error("'budgets.perConversation.maxCost' must be a positive number");
+    }
+    budgets.perConversation = { maxTokens, maxCost };
+  }
+
+  return budgets;
+}
+
+/**
+ * Parse a model's optional fallbacks list; model id references are checked once all models are known
+ */
+function parseFallbacks(
+  rawFallbacks: unknown,
+  modelProvider: string | undefined
+): ModelFallback[] | undefined {
+  if (rawFallbacks === undefined || rawFallbacks === null) {
+    return undefined;
+  }
+  if (!Array.isArray(rawFallbacks)) {
+    throw new Error("Model 'fallbacks' must be an array");
+  }
+
+  return rawFallbacks.map((fallback) => {
+    if (typeof fallback === "string") {
+      return fallback;
+    }
+    if (typeof fallback !== "object" || fallback === null) {
+      throw new Error("Each fallback must be a model id or an object with 'baseUrl' and 'apiKey'");
+    }
+
+    const f = fallback as Record<string, unknown>;
+    const baseUrl = f.baseUrl as string | undefined;
+    const apiKey = f.apiKey as string | undefined;
+    const modelName = f.modelName as string | undefined;
+    const provider = f.provider as string | undefined;
+
+    if (!baseUrl) throw new Error("Fallback endpoint must have 'baseUrl' field");
+    if (!apiKey && (provider ?? modelProvider) !== "local") {
+      throw new Error("Fallback endpoint must have 'apiKey' field");
+    }
+    if (provider && !PROVIDERS.includes(provider as ProviderType)) {
+      throw new Error(`Invalid provider '${provider}'. Must be one of: ${PROVIDERS.join(", ")}`);
+    }
+
+    return {
+      baseUrl,
+      apiKey: apiKey ?? "",
+      modelName,
+      provider: provider as ProviderType | undefined,
+    };
+  });
+}
+
+/**
+ * Parse the optional personas section: names mapped to a system prompt or to
+ * an object with systemPrompt and description
+ */
+function parsePersonas(rawPersonas: unknown): Record<string, PersonaConfig> | undefined {
+  if (rawPersonas === undefined || rawPersonas === null) {
+    return undefined;
+  }
+  if (typeof rawPersonas !== "object" || Array.isArray(rawPersonas)) {
+    throw new Error("'personas' must be a mapping of persona names to system prompts");
+  }
+
+  return Object.fromEntries(
+    Object.entries(rawPersonas as Record<string, unknown>).map(([name, persona]) => {
+      if (typeof persona === "string") {
+        return [name, { systemPrompt: persona }];
+      }
+      if (typeof persona !== "object" || persona === null) {
+        throw new Error(`Persona '${name}' must be a string or an object with 'systemPrompt'`);
+      }
+
+      const p = persona as Record<string, unknown>;
+      const systemPrompt = p.systemPrompt as string | undefined;
+      if (!systemPrompt) throw new Error(`Persona '${name}' must have 'systemPrompt' field`);
+
+      return [name, { systemPrompt, description: p.description as string | undefined }];
+    })
+  );
+}
+
+/**
+ * Parse and validate the optional storage section
+ */
+function parseStorageConfig(rawStorage: unknown): StorageConfig | undefined {
+  if (rawStorage === undefined || rawStorage === null) {
+    return undefined;
+  }
+  if (typeof rawStorage !== "object") {
+    throw new Error("'storage' must be an object");
+  }
+
+  const s = rawStorage as Record<string, unknown>;
+  const type = (s.type as string | undefined) || "memory";
+  const storagePath = s.path as string | undefined;
+
+  if (!["memory", "file"].includes(type)) {
+    throw new Error(`Invalid storage type '${type}'. Must be 'memory' or 'file'`);
+  }
+
+  return {
+    type: type as StorageConfig["type"],
+    path: storagePath && expandHome(storagePath),
+  };
+}
+
+/**
+ * Parse and validate the optional attachments section
+ */
+function parseAttachmentConfig(rawAttachments: unknown): AttachmentConfig | undefined {
+  if (rawAttachments === undefined || rawAttachments === null) {
+    return undefined;
+  }
+  if (typeof rawAttachments !== "object") {
+    throw new Error("'attachments' must be an object");
+  }
+
+  const a = rawAttachments as Record<string, unknown>;
+  const allowedRoots = a.allowedRoots ?? [];
+  if (!Array.isArray(allowedRoots) || allowedRoots.some((root) => typeof root !== "string")) {
+    throw new Error("'attachments.allowedRoots' must be a list of directories");
+  }
+
+  const config: AttachmentConfig = {
+    allowedRoots: allowedRoots.map((root: string) => path.resolve(expandHome(root))),
+  };
+  for (const key of ["maxFileBytes", "maxTotalBytes"] as const) {
+    if (a[key] === undefined || a[key] === null) continue;
+    const value = Number(a[key]);
+    if (!(Number.isInteger(value) && value > 0)) {
+      throw new Error(`'attachments.${key}' must be a positive integer`);
+    }
+    config[key] = value;
+  }
+
+  return config;
+}
+
+/**
+ * Expand "~/" to the user's home directory
+ */
+function expandHome(filePath: string): string {
+  if (!filePath.startsWith("~/")) {
+    return filePath;
+  }
+  const homeDir = process.env.HOME || process.env.USERPROFILE || "";
+  return path.join(homeDir, filePath.slice(2));
+}
+
+/**
+ * Parse and validate the optional summarization section
+ */
+function parseSummarizationConfig(
+  rawSummarization: unknown,
+  models: ModelConfig[]
+): SummarizationConfig | undefined {
+  if (rawSummarization === undefined || rawSummarization === null) {
+    return undefined;
+  }
+  if (typeof rawSummarization !== "object") {
+    throw new Error("'summarization' must be an object");
+  }
+
+  const s = rawSummarization as Record<string, unknown>;
+  const modelId = s.modelId as string | undefined;
+  const keepRecentMessages = s.keepRecentMessages ? Number(s.keepRecentMessages) : 6;
+
+  if (!modelId) throw new Error("Summarization must have 'modelId' field");
+  if (!models.some((m) => m.id === modelId)) {
+    throw new Error(`Summarization model '${modelId}' is not in the 'models' array`);
+  }
+
+  return {
+    modelId,
+    keepRecentMessages,
+  };
+}
+
 /**
  * Parse and validate config from YAML file
  */
@@ -137,35 +584,111 @@ function parseYamlConfig(rawConfig: RawConfig): ServerConfig {
     const baseUrl = m.baseUrl as string | undefined;
     const apiKey = m.apiKey as string | undefined;
     const provider = m.provider as string | undefined;
+    const contextWindow = m.contextWindow ? Number(m.contextWindow) : undefined;
+    const maxOutputTokens = m.maxOutputTokens ? Number(m.maxOutputTokens) : undefined;
+    const timeoutMs = m.timeoutMs ? Number(m.timeoutMs) : undefined;
+    const maxRetries = m.maxRetries !== undefined ? Number(m.maxRetries) : undefined;
+    const backoff = parseBackoffPolicy(m.backoff);
+    const fallbacks = parseFallbacks(m.fallbacks, provider);
+    const generation = parseGenerationParams(m.generation);
+    const systemPrompt = m.systemPrompt as string | undefined;
+    const reasoning = parseReasoningConfig(m.reasoning);
+    const pricing = parsePricing(m.pricing);
+    const budget =
+      m.budget !== undefined && m.budget !== null
+        ? parseBudgetLimits(m.budget as Record<string, unknown>, `models.${id}.budget`)
+        : undefined;
 
     if (!id) throw new Error("Model must have 'id' field");
     if (!modelName) throw new Error("Model must have 'modelName' field for API calls");
     if (!baseUrl) throw new Error("Model must have 'baseUrl' field");
-    if (!apiKey) throw new Error("Model must have 'apiKey' field");
+    // Local servers usually run without authentication
+    if (!apiKey && provider !== "local") throw new Error("Model must have 'apiKey' field");
 
     // Validate provider if provided
-    if (provider && !["openai", "openrouter"].includes(provider)) {
-      throw new Error(`Invalid provider '${provider}'. Must be 'openai' or 'openrouter'`);
+    if (provider && !PROVIDERS.includes(provider as ProviderType)) {
+      throw new Error(`Invalid provider '${provider}'. Must be one of: ${PROVIDERS.join(", ")}`);
     }
 
     return {
       id,
       modelName,
       baseUrl,
-      apiKey,
-      provider: provider as "openai" | "openrouter" | undefined,
+      apiKey: apiKey ?? "",
+      provider: provider as ProviderType | undefined,
+      contextWindow,
+      maxOutputTokens,
+      timeoutMs,
+      maxRetries,
+      backoff,
+      fallbacks,
+      generation,
+      systemPrompt,
+      reasoning,
+      pricing,
+      budget,
     };
   });
 
+  for (const model of parsedModels) {
+    for (const fallback of model.fallbacks ?? []) {
+      if (typeof fallback !== "string") continue;
+      if (fallback === model.id) {
+        throw new Error(`Model '${model.id}' cannot list itself as a fallback`);
+      }
+      if (!parsedModels.some((m) => m.id === fallback)) {
+        throw new Error(
+          `Fallback model '${fallback}' of '${model.id}' is not in the 'models' array`
+        );
+      }
+    }
+  }
+
   const httpPort = rawConfig.httpPort ? Number(rawConfig.httpPort) : 32701;
+  const httpResponseMode = parseHttpResponseMode(rawConfig.httpResponseMode);
   const truncateLimit = rawConfig.truncateLimit ? Number(rawConfig.truncateLimit) : 500;
+  const contextStrategy = parseContextStrategy(rawConfig.contextStrategy);
+  const conversationTtlMinutes = rawConfig.conversationTtlMinutes
+    ? Number(rawConfig.conversationTtlMinutes)
+    : undefined;
+  const maxConversations = rawConfig.maxConversations
+    ? Number(rawConfig.maxConversations)
+    : undefined;
+  const fanOutConcurrency = rawConfig.fanOutConcurrency
+    ? Number(rawConfig.fanOutConcurrency)
+    : undefined;
+  if (
+    fanOutConcurrency !== undefined &&
+    !(Number.isInteger(fanOutConcurrency) && fanOutConcurrency > 0)
+  ) {
+    throw new Error("'fanOutConcurrency' must be a positive integer");
+  }
+  const conversationIdFormat = parseConversationIdFormat(rawConfig.conversationIdFormat);
+  const conversationIdLength = parseConversationIdLength(rawConfig.conversationIdLength);
   const logLevel = (rawConfig.logLevel || "info") as LogLevel;
+  const storage = parseStorageConfig(rawConfig.storage);
+  const summarization = parseSummarizationConfig(rawConfig.summarization, parsedModels);
+  const personas = parsePersonas(rawConfig.personas);
+  const budgets = parseBudgets(rawConfig.budgets);
+  const attachments = parseAttachmentConfig(rawConfig.attachments);
 
   return {
     models: parsedModels,
     httpPort,
+    httpResponseMode,
     truncateLimit,
+    contextStrategy,
+    conversationTtlMinutes,
+    maxConversations,
+    fanOutConcurrency,
+    conversationIdFormat,
+    conversationIdLength,
     logLevel,
+    storage,
+    summarization,
+    personas,
+    budgets,
+    attachments,
   };
 }
 
@@ -0,0 +1,166 @@
+import type { ChatMessage, ContextStrategyName, ModelConfig } from "./types.js";
+
+// Rough average for English text and code; avoids shipping a tokenizer per model
+const CHARS_PER_TOKEN = 4;
+
+// Role markers and separators the chat template adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Reply reservation when a model does not configure maxOutputTokens
+const DEFAULT_OUTPUT_RESERVE = 4096;
+
+/**
+ * Messages kept from the start and end of the history
+ * Everything in between is dropped.
+ */
+export interface TrimResult {
+  head: ChatMessage[];
+  tail: ChatMessage[];
+}
+
+/**
+ * Decide which messages to keep so their total cost fits in the budget
+ * The last message must always be in the tail.
+ */
+export type ContextStrategy = (
+  messages: ChatMessage[],
+  budget: number,
+  cost: (message: ChatMessage) => number
+) => TrimResult;
+
+/**
+ * Estimate the number of tokens a message takes in the prompt
+ */
+export function estimateTokens(message: Pick<ChatMessage, "content">): number {
+  return Math.ceil(message.content.length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Get the number of prompt tokens a model can take, or null if its context window is unknown
+ */
+export function getPromptBudget(
+  model: Pick<ModelConfig, "contextWindow" | "maxOutputTokens">
+): number | null {
+  if (!model.contextWindow) {
+    return null;
+  }
+  const reserve =
+    model.maxOutputTokens ?? Math.min(DEFAULT_OUTPUT_RESERVE, Math.floor(model.contextWindow / 4));
+  return Math.max(model.contextWindow - reserve, 0);
+}
+
+/**
+ * Take messages from the end while they fit, always taking at least one
+ */
+function takeTail(
+  messages: ChatMessage[],
+  budget: number,
+  cost: (message: ChatMessage) => number
+): ChatMessage[] {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const next = cost(messages[start - 1]);
+    if (used + next > budget && start < messages.length) {
+      break;
+    }
+    used += next;
+    start--;
+  }
+  return messages.slice(start);
+}
+
+/**
+ * Take messages from the start while they fit
+ */
+function takeHead(
+  messages: ChatMessage[],
+  budget: number,
+  cost: (message: ChatMessage) => number
+): ChatMessage[] {
+  let used = 0;
+  let end = 0;
+  while (end < messages.length && used + cost(messages[end]) <= budget) {
+    used += cost(messages[end]);
+    end++;
+  }
+  return messages.slice(0, end);
+}
+
+function total(messages: ChatMessage[], cost: (message: ChatMessage) => number): number {
+  return messages.reduce((sum, message) => sum + cost(message), 0);
+}
+
+/**
+ * Keep only the most recent messages
+ */
+const slidingWindow: ContextStrategy = (messages, budget, cost) => ({
+  head: [],
+  tail: takeTail(messages, budget, cost),
+});
+
+/**
+ * Keep the opening exchange, which usually carries the problem statement, then recent messages
+ */
+const headTail: ContextStrategy = (messages, budget, cost) => {
+  const opening = messages.slice(0, 2);
+  const tail = takeTail(messages.slice(opening.length), budget - total(opening, cost), cost);
+  if (total(opening, cost) + total(tail, cost) > budget) {
+    return slidingWindow(messages, budget, cost);
+  }
+  return { head: opening, tail };
+};
+
+/**
+ * Split the budget evenly between the start and the end of the conversation
+ */
+const dropMiddle: ContextStrategy = (messages, budget, cost) => {
+  const tail = takeTail(messages, Math.ceil(budget / 2), cost);
+  const head = takeHead(
+    messages.slice(0, messages.length - tail.length),
+    budget - total(tail, cost),
+    cost
+  );
+  return { head, tail };
+};
+
+export const CONTEXT_STRATEGIES: Record<ContextStrategyName, ContextStrategy> = {
+  "sliding-window": slidingWindow,
+  "head-tail": headTail,
+  "drop-middle": dropMiddle,
+};
+
+/**
+ * Trim messages to fit the budget using the given strategy
+ * The head is cut back to end on an assistant reply and the tail to start on a user turn,
+ * and the omission notice is prefixed to that user turn, so roles keep alternating.
+ */
+export function trimMessages(
+  messages: ChatMessage[],
+  budget: number,
+  strategy: ContextStrategy,
+  cost: (message: ChatMessage) => number = estimateTokens
+): ChatMessage[] {
+  if (total(messages, cost) <= budget) {
+    return messages;
+  }
+
+  let { head, tail } = strategy(messages, budget, cost);
+
+  while (head.length > 0 && head[head.length - 1].role !== "assistant") {
+    head = head.slice(0, -1);
+  }
+  while (tail.length > 1 && tail[0].role !== "user") {
+    tail = tail.slice(1);
+  }
+
+  const omitted = messages.length - head.length - tail.length;
+  if (omitted === 0) {
+    return messages;
+  }
+
+  const [first, ...rest] = tail;
+  const notice = `[... ${omitted} earlier messages omitted to fit the context window ...]`;
+
+  return [...head, { ...first, content: `${notice}\n\n${first.content}` }, ...rest];
+}
@@ -0,0 +1,66 @@
+import { randomBytes, randomInt, randomUUID } from "node:crypto";
+import type { ConversationIdFormat } from "./types.js";
+
+// Lowercase letters and digits without look-alikes (0/o, 1/l/i)
+const READABLE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+const ALIAS_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,63}$/;
+
+const MAX_ATTEMPTS = 20;
+
+export const DEFAULT_ID_LENGTH = 6;
+
+export interface ConversationIdOptions {
+  format?: ConversationIdFormat;
+  /** Number of characters for "hex" and "readable" formats */
+  length?: number;
+}
+
+function generateCandidate(format: ConversationIdFormat, length: number): string {
+  switch (format) {
+    case "uuid":
+      return randomUUID();
+    case "readable":
+      return Array.from(
+        { length },
+        () => READABLE_ALPHABET[randomInt(READABLE_ALPHABET.length)]
+      ).join("");
+    default:
+      return randomBytes(Math.ceil(length / 2))
+        .toString("hex")
+        .slice(0, length);
+  }
+}
+
+/**
+ * Generate a conversation ID that is not already taken
+ */
+export function generateConversationId(
+  isTaken: (id: string) => boolean,
+  options: ConversationIdOptions = {}
+): string {
+  const format = options.format ?? "hex";
+  const length = options.length ?? DEFAULT_ID_LENGTH;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const candidate = generateCandidate(format, length);
+    if (!isTaken(candidate)) {
+      return candidate;
+    }
+  }
+
+  throw new Error(
+    `Could not generate a unique conversation ID after ${MAX_ATTEMPTS} attempts; increase conversationIdLength`
+  );
+}
+
+/**
+ * Check that an alias is usable as a conversation reference
+ */
+export function validateAlias(alias: string): void {
+  if (!ALIAS_PATTERN.test(alias)) {
+    throw new Error(
+      `Invalid alias '${alias}'. Use 1-64 letters, digits, '.', '_' or '-', starting with a letter or digit`
+    );
+  }
+}
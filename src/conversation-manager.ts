@@ -1,99 +1,406 @@
-import { randomBytes } from "node:crypto";
+import {
+  CONTEXT_STRATEGIES,
+  type ContextStrategy,
+  estimateTokens,
+  trimMessages,
+} from "./context-window.js";
+import {
+  type ConversationIdOptions,
+  generateConversationId,
+  validateAlias,
+} from "./conversation-id.js";
+import { type ConversationStore, MemoryConversationStore } from "./conversation-store.js";
+import { ChatCancelledError } from "./errors.js";
 import { logger } from "./logger.js";
-import type { ChatMessage, ConversationState } from "./types.js";
+import type { ConversationSummarizer } from "./summarizer.js";
+import type {
+  ChatMessage,
+  ContextStrategyName,
+  ConversationState,
+  ConversationSummary,
+} from "./types.js";
+import type { UsageTracker } from "./usage-tracker.js";
+
+/**
+ * System prompt a conversation is started with, and the persona it came from
+ */
+export type ConversationInstructions = Pick<ConversationState, "systemPrompt" | "persona">;
+
+export interface ConversationManagerOptions {
+  truncateLimit?: number;
+  store?: ConversationStore;
+  /** Idle time after which a conversation expires; unset = never */
+  ttlMinutes?: number;
+  /** Max conversations kept; least recently updated are evicted first; unset = unlimited */
+  maxConversations?: number;
+  idOptions?: ConversationIdOptions;
+  /** How history is cut down when it exceeds truncateLimit or the model's context window */
+  contextStrategy?: ContextStrategyName;
+  /** Condense older turns instead of dropping them when history gets too long */
+  summarization?: {
+    summarizer: ConversationSummarizer;
+    /** Most recent messages always sent verbatim */
+    keepRecentMessages: number;
+  };
+  /** Forks and clones start with what their source has spent towards its budget */
+  usageTracker?: UsageTracker;
+}
 
 export class ConversationManager {
-  private conversations: Map<string, ConversationState> = new Map();
+  private conversations: ConversationStore;
   private truncateLimit: number;
+  private ttlMs: number | null;
+  private maxConversations: number | null;
+  private idOptions: ConversationIdOptions;
+  private contextStrategy: ContextStrategy;
+  private summarization: ConversationManagerOptions["summarization"];
+  private usageTracker?: UsageTracker;
+  /** Conversations with a model call in flight, and how many */
+  private pendingTurns: Map<string, number> = new Map();
 
-  constructor(truncateLimit = 500) {
-    this.truncateLimit = truncateLimit;
+  constructor(options: ConversationManagerOptions = {}) {
+    this.truncateLimit = options.truncateLimit ?? 500;
+    this.conversations = options.store ?? new MemoryConversationStore();
+    this.ttlMs = options.ttlMinutes ? options.ttlMinutes * 60 * 1000 : null;
+    this.maxConversations = options.maxConversations || null;
+    this.idOptions = options.idOptions ?? {};
+    this.contextStrategy = CONTEXT_STRATEGIES[options.contextStrategy ?? "drop-middle"];
+    this.summarization = options.summarization;
+    this.usageTracker = options.usageTracker;
   }
 
   /**
    * Create a new conversation or get existing one
    */
-  createConversation(modelId: string): string {
-    // Generate a short 4-character hex ID (16 bits = 65536 possible values)
-    const conversationId = randomBytes(2).toString("hex");
+  createConversation(
+    modelId: string,
+    alias?: string,
+    instructions?: ConversationInstructions
+  ): string {
+    return this.addConversation(modelId, alias, instructions);
+  }
+
+  /**
+   * Keep a conversation from being evicted or expiring while a model call for it is in flight
+   * Returns the function that ends the call.
+   */
+  beginTurn(conversationId: string): () => void {
+    this.pendingTurns.set(conversationId, (this.pendingTurns.get(conversationId) ?? 0) + 1);
+
+    let ended = false;
+    return () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      const count = (this.pendingTurns.get(conversationId) ?? 1) - 1;
+      if (count > 0) {
+        this.pendingTurns.set(conversationId, count);
+      } else {
+        this.pendingTurns.delete(conversationId);
+      }
+    };
+  }
+
+  /**
+   * Create a conversation, evicting others if over the limit but never the one given in keep
+   */
+  private addConversation(
+    modelId: string,
+    alias: string | undefined,
+    instructions: ConversationInstructions | undefined,
+    keep?: string
+  ): string {
+    this.removeExpired();
+    if (alias) {
+      this.assertAliasAvailable(alias);
+    }
+    this.evictOverLimit(keep);
+
+    // IDs must not clash with existing IDs or aliases, since both can be used to look up
+    const conversationId = generateConversationId(
+      (id) => this.getConversation(id) !== null,
+      this.idOptions
+    );
     const conversation: ConversationState = {
       id: conversationId,
+      alias,
       modelId,
+      systemPrompt: instructions?.systemPrompt,
+      persona: instructions?.persona,
       messages: [],
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
-    this.conversations.set(conversationId, conversation);
-    logger.debug("Created new conversation", { conversationId, modelId });
+    this.conversations.save(conversation);
+    logger.debug("Created new conversation", {
+      conversationId,
+      alias,
+      modelId,
+      persona: instructions?.persona,
+      hasSystemPrompt: !!instructions?.systemPrompt,
+    });
 
     return conversationId;
   }
 
   /**
-   * Get a conversation by ID
+   * Get a conversation by ID or alias
    */
   getConversation(conversationId: string): ConversationState | null {
-    return this.conversations.get(conversationId) || null;
+    const conversation =
+      this.conversations.get(conversationId) ??
+      this.conversations.list().find((c) => c.alias === conversationId) ??
+      null;
+    if (conversation && this.isExpired(conversation)) {
+      this.conversations.delete(conversation.id);
+      logger.debug("Conversation expired", { conversationId: conversation.id });
+      return null;
+    }
+    return conversation;
   }
 
   /**
-   * Add a message to a conversation
+   * Give a conversation a human-readable alias usable in place of its ID
    */
-  addMessage(conversationId: string, role: "user" | "assistant", content: string): void {
-    const conversation = this.conversations.get(conversationId);
+  setAlias(conversationId: string, alias: string): void {
+    const conversation = this.getConversation(conversationId);
     if (!conversation) {
       throw new Error(`Conversation not found: ${conversationId}`);
     }
+    if (conversation.alias === alias) {
+      return;
+    }
 
-    conversation.messages.push({ role, content });
+    this.assertAliasAvailable(alias);
+    conversation.alias = alias;
     conversation.updatedAt = Date.now();
+    this.conversations.save(conversation);
 
-    logger.debug("Added message to conversation", {
-      conversationId,
-      role,
-      contentLength: content.length,
+    logger.debug("Set conversation alias", { conversationId: conversation.id, alias });
+  }
+
+  /**
+   * Commit a user message and the model's reply together, so a failed model call
+   * never leaves an unanswered user turn behind
+   * Resending a message after a failed call is therefore a retry rather than a duplicate.
+   * With replaceFrom, the messages from that index on are replaced by the turn.
+   */
+  appendTurn(
+    conversationId: string,
+    userMessage: Omit<ChatMessage, "role">,
+    assistantMessage: Omit<ChatMessage, "role">,
+    replaceFrom?: number
+  ): void {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    if (replaceFrom !== undefined) {
+      this.truncate(conversation, replaceFrom);
+    }
+
+    conversation.messages.push(
+      { role: "user", ...userMessage },
+      { role: "assistant", ...assistantMessage }
+    );
+    conversation.updatedAt = Date.now();
+    this.conversations.save(conversation);
+
+    logger.debug("Appended turn to conversation", {
+      conversationId: conversation.id,
+      userLength: userMessage.content.length,
+      assistantLength: assistantMessage.content.length,
+      hasReasoning: !!assistantMessage.reasoning,
+    });
+  }
+
+  /**
+   * Remove the last user message and the reply to it, if it got one
+   * Returns the removed messages, or an empty list if the conversation has none.
+   */
+  removeLastTurn(conversationId: string): ChatMessage[] {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    const index = this.findLastUserMessage(conversation.id);
+    if (index === null) {
+      return [];
+    }
+
+    const removed = conversation.messages.slice(index);
+    this.truncate(conversation, index);
+    conversation.updatedAt = Date.now();
+    this.conversations.save(conversation);
+
+    logger.debug("Removed last turn from conversation", {
+      conversationId: conversation.id,
+      removedCount: removed.length,
     });
+
+    return removed;
+  }
+
+  /**
+   * Get the index of the most recent user message, or null if there is none
+   */
+  findLastUserMessage(conversationId: string): number | null {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    for (let index = conversation.messages.length - 1; index >= 0; index--) {
+      if (conversation.messages[index].role === "user") {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get conversation history, trimmed to truncateLimit messages and,
+   * if given, an estimated prompt token budget
+   */
+  getHistory(conversationId: string, tokenBudget?: number | null): ChatMessage[] {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    return this.trim(conversation.id, conversation.messages, tokenBudget);
   }
 
   /**
-   * Get conversation history with optional truncation
+   * Get the history to send to the model, ending with the pending user message if given
+   * The pending message is not stored; with replaceFrom, it replaces every message from that
+   * index on.
+   * With summarization enabled, older turns that no longer fit are condensed into a summary
+   * stored on the conversation, rather than dropped; otherwise the history is trimmed.
+   * Aborting the signal cancels the summarization along with the turn.
    */
-  getHistory(conversationId: string): ChatMessage[] {
-    const conversation = this.conversations.get(conversationId);
+  async getPromptHistory(
+    conversationId: string,
+    tokenBudget?: number | null,
+    pendingUserMessage?: string,
+    replaceFrom?: number,
+    signal?: AbortSignal
+  ): Promise<ChatMessage[]> {
+    const conversation = this.getConversation(conversationId);
     if (!conversation) {
       throw new Error(`Conversation not found: ${conversationId}`);
     }
 
-    return this.truncateMessages(conversation.messages);
+    let messages = conversation.messages;
+    if (pendingUserMessage !== undefined) {
+      const kept = replaceFrom !== undefined ? messages.slice(0, replaceFrom) : messages;
+      messages = [...kept, { role: "user", content: pendingUserMessage }];
+    }
+
+    if (this.summarization && !this.fits(this.withSummary(conversation, messages), tokenBudget)) {
+      try {
+        await this.updateSummary(conversation, this.summarization, messages, signal);
+      } catch (error) {
+        if (error instanceof ChatCancelledError) {
+          throw error;
+        }
+        logger.warn("Failed to summarize conversation, falling back to trimming", {
+          conversationId: conversation.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return this.trim(conversation.id, this.withSummary(conversation, messages), tokenBudget);
   }
 
   /**
    * Clone a conversation with a new model
    */
-  cloneConversation(sourceConversationId: string, newModelId: string): string {
-    const source = this.conversations.get(sourceConversationId);
+  cloneConversation(
+    sourceConversationId: string,
+    newModelId: string,
+    alias?: string,
+    instructions?: ConversationInstructions
+  ): string {
+    return this.forkConversation(sourceConversationId, {
+      modelId: newModelId,
+      alias,
+      instructions,
+    });
+  }
+
+  /**
+   * Branch a new conversation off the first messageCount messages of another one
+   * The branch records where it came from; the source is left as it is.
+   */
+  forkConversation(
+    sourceConversationId: string,
+    options: {
+      /** Leading messages to copy; all of them if unset */
+      messageCount?: number;
+      /** Model the branch talks to; the source's model if unset */
+      modelId?: string;
+      alias?: string;
+      instructions?: ConversationInstructions;
+    } = {}
+  ): string {
+    const source = this.getConversation(sourceConversationId);
     if (!source) {
       throw new Error(`Source conversation not found: ${sourceConversationId}`);
     }
 
-    const newConversationId = this.createConversation(newModelId);
+    const messageCount = options.messageCount ?? source.messages.length;
+    if (
+      !Number.isInteger(messageCount) ||
+      messageCount < 0 ||
+      messageCount > source.messages.length
+    ) {
+      throw new Error(
+        `messageCount must be between 0 and ${source.messages.length}, the number of messages in the conversation`
+      );
+    }
+    // A branch ending on a user message would send two in a row with the next chat
+    if (options.messageCount !== undefined && source.messages[messageCount - 1]?.role === "user") {
+      throw new Error(
+        `messageCount ${messageCount} ends on a user message that has no reply; use ${messageCount - 1} to branch before it, or a count that includes the reply`
+      );
+    }
+
+    // The fork keeps the source's persona unless new instructions are given
+    const modelId = options.modelId ?? source.modelId;
+    const newConversationId = this.addConversation(
+      modelId,
+      options.alias,
+      options.instructions ?? { systemPrompt: source.systemPrompt, persona: source.persona },
+      source.id
+    );
     const newConversation = this.conversations.get(newConversationId);
 
     if (!newConversation) {
-      throw new Error("Failed to create cloned conversation");
+      throw new Error("Failed to create forked conversation");
     }
 
-    // Copy messages from source
-    newConversation.messages = source.messages.map((msg) => ({ ...msg }));
+    // Copy messages from source, and the summary if it only covers copied messages
+    newConversation.messages = source.messages.slice(0, messageCount).map((msg) => ({ ...msg }));
+    if (source.summary && source.summary.messageCount <= messageCount) {
+      newConversation.summary = { ...source.summary };
+    }
+    newConversation.forkedFrom = { conversationId: source.id, messageCount };
     newConversation.updatedAt = Date.now();
+    this.conversations.save(newConversation);
+    this.usageTracker?.carryOver(newConversationId, source.id);
 
-    logger.info("Cloned conversation with new model", {
-      sourceConversationId,
+    logger.info("Forked conversation", {
+      sourceConversationId: source.id,
       newConversationId,
       oldModelId: source.modelId,
-      newModelId,
-      messageCount: source.messages.length,
+      newModelId: modelId,
+      messageCount,
     });
 
     return newConversationId;
@@ -107,24 +414,214 @@ export class ConversationManager {
   }
 
   /**
-   * Truncate messages to limit context size
-   * Keeps first N and last N messages if total exceeds limit
+   * Delete a conversation
+   * Returns false if it did not exist
+   */
+  deleteConversation(conversationId: string): boolean {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      return false;
+    }
+
+    this.conversations.delete(conversation.id);
+    logger.info("Deleted conversation", { conversationId: conversation.id });
+    return true;
+  }
+
+  /**
+   * Wait until every change so far is written to storage
+   */
+  flush(): Promise<void> {
+    return this.conversations.flush();
+  }
+
+  /**
+   * List live conversations, most recently active first
+   */
+  listConversations(): ConversationSummary[] {
+    this.removeExpired();
+
+    return this.conversations
+      .list()
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((conversation) => ({
+        id: conversation.id,
+        alias: conversation.alias,
+        modelId: conversation.modelId,
+        persona: conversation.persona,
+        messageCount: conversation.messages.length,
+        forkedFrom: conversation.forkedFrom,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      }));
+  }
+
+  /**
+   * Trim messages to truncateLimit and, if given, the token budget
+   */
+  private trim(
+    conversationId: string,
+    messages: ChatMessage[],
+    tokenBudget?: number | null
+  ): ChatMessage[] {
+    let trimmed = trimMessages(messages, this.truncateLimit, this.contextStrategy, () => 1);
+    if (tokenBudget) {
+      trimmed = trimMessages(trimmed, tokenBudget, this.contextStrategy);
+    }
+
+    if (trimmed.length < messages.length) {
+      logger.debug("Trimmed conversation history", {
+        conversationId,
+        originalCount: messages.length,
+        keptCount: trimmed.length,
+        tokenBudget,
+      });
+    }
+
+    return trimmed;
+  }
+
+  private fits(messages: ChatMessage[], tokenBudget?: number | null): boolean {
+    if (messages.length > this.truncateLimit) {
+      return false;
+    }
+    if (!tokenBudget) {
+      return true;
+    }
+    return messages.reduce((sum, msg) => sum + estimateTokens(msg), 0) <= tokenBudget;
+  }
+
+  /**
+   * Replace the summarized turns with the summary, prefixed to the first remaining user turn
+   * so roles keep alternating
    */
-  private truncateMessages(messages: ChatMessage[]): ChatMessage[] {
-    if (messages.length <= this.truncateLimit) {
+  private withSummary(conversation: ConversationState, messages: ChatMessage[]): ChatMessage[] {
+    const { summary } = conversation;
+    if (!summary || summary.messageCount >= messages.length) {
       return messages;
     }
 
-    const kept = Math.floor(this.truncateLimit / 2);
-    const first = messages.slice(0, kept);
-    const last = messages.slice(-kept);
+    const [first, ...rest] = messages.slice(summary.messageCount);
+    return [
+      {
+        ...first,
+        content: `[Summary of the earlier conversation]\n${summary.content}\n\n[The conversation continues]\n${first.content}`,
+      },
+      ...rest,
+    ];
+  }
 
-    // Add marker for truncated content
-    const marker: ChatMessage = {
-      role: "assistant",
-      content: "[... conversation history truncated to save context ...]",
-    };
+  /**
+   * Fold everything but the most recent messages into the conversation summary
+   */
+  private async updateSummary(
+    conversation: ConversationState,
+    summarization: NonNullable<ConversationManagerOptions["summarization"]>,
+    messages: ChatMessage[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    // A summary reaching past the messages being replaced no longer applies
+    const current =
+      conversation.summary && conversation.summary.messageCount < messages.length
+        ? conversation.summary
+        : undefined;
+    const start = current?.messageCount ?? 0;
+
+    // The summary must end right before a user turn, which it is then prefixed to
+    let end = messages.length - summarization.keepRecentMessages;
+    while (end > start && messages[end]?.role !== "user") {
+      end--;
+    }
+    if (end <= start) {
+      return;
+    }
+
+    const content = await summarization.summarizer.summarize(
+      messages.slice(start, end),
+      current?.content,
+      signal
+    );
+
+    conversation.summary = { content, messageCount: end };
+    this.conversations.save(conversation);
+
+    logger.info("Summarized conversation turns", {
+      conversationId: conversation.id,
+      summarizedCount: end,
+      keptCount: messages.length - end,
+    });
+  }
+
+  /**
+   * Drop the messages from the given index on, and the summary if it covers any of them
+   */
+  private truncate(conversation: ConversationState, messageCount: number): void {
+    conversation.messages = conversation.messages.slice(0, messageCount);
+    if (conversation.summary && conversation.summary.messageCount > messageCount) {
+      conversation.summary = undefined;
+    }
+  }
+
+  private assertAliasAvailable(alias: string): void {
+    validateAlias(alias);
+    if (this.getConversation(alias)) {
+      throw new Error(`Alias already in use: ${alias}`);
+    }
+  }
 
-    return [...first, marker, ...last];
+  /**
+   * A conversation with a model call in flight is in use, however long the call takes
+   */
+  private isExpired(conversation: ConversationState): boolean {
+    return (
+      this.ttlMs !== null &&
+      Date.now() - conversation.updatedAt > this.ttlMs &&
+      !this.pendingTurns.has(conversation.id)
+    );
+  }
+
+  /**
+   * Drop conversations that have been idle longer than the TTL
+   */
+  private removeExpired(): void {
+    if (this.ttlMs === null) {
+      return;
+    }
+
+    for (const conversation of this.conversations.list()) {
+      if (this.isExpired(conversation)) {
+        this.conversations.delete(conversation.id);
+        logger.debug("Conversation expired", { conversationId: conversation.id });
+      }
+    }
+  }
+
+  /**
+   * Evict least recently updated conversations to make room for a new one
+   * Conversations with a model call in flight and the one given in keep are never evicted,
+   * so the limit can be exceeded while they are all in use.
+   */
+  private evictOverLimit(keep?: string): void {
+    if (this.maxConversations === null) {
+      return;
+    }
+
+    const conversations = this.conversations.list();
+    const excess = conversations.length - this.maxConversations + 1;
+    if (excess <= 0) {
+      return;
+    }
+
+    const oldest = conversations
+      .filter((c) => c.id !== keep && !this.pendingTurns.has(c.id))
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, excess);
+    for (const conversation of oldest) {
+      this.conversations.delete(conversation.id);
+      logger.info("Evicted least recently used conversation", {
+        conversationId: conversation.id,
+        updatedAt: conversation.updatedAt,
+      });
+    }
   }
 }
@@ -0,0 +1,218 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { logger } from "./logger.js";
+import type { ConversationState, StorageConfig } from "./types.js";
+
+/**
+ * Storage backend for conversations
+ */
+export interface ConversationStore {
+  get(conversationId: string): ConversationState | null;
+  has(conversationId: string): boolean;
+  list(): ConversationState[];
+  save(conversation: ConversationState): void;
+  delete(conversationId: string): boolean;
+  /** Resolves once everything saved so far is written */
+  flush(): Promise<void>;
+}
+
+/**
+ * Keeps conversations in memory only; everything is lost on restart
+ */
+export class MemoryConversationStore implements ConversationStore {
+  protected conversations: Map<string, ConversationState> = new Map();
+
+  get(conversationId: string): ConversationState | null {
+    return this.conversations.get(conversationId) || null;
+  }
+
+  has(conversationId: string): boolean {
+    return this.conversations.has(conversationId);
+  }
+
+  list(): ConversationState[] {
+    return Array.from(this.conversations.values());
+  }
+
+  save(conversation: ConversationState): void {
+    this.conversations.set(conversation.id, conversation);
+  }
+
+  delete(conversationId: string): boolean {
+    return this.conversations.delete(conversationId);
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+interface DeletedRecord {
+  id: string;
+  deleted: true;
+}
+
+/** Compact once the log is this many times the size of the live conversations */
+const COMPACT_RATIO = 4;
+/** Logs smaller than this are left to grow until the next startup */
+const MIN_COMPACT_BYTES = 1024 * 1024;
+
+/**
+ * Persists conversations to a JSON-lines file
+ * Every save appends a full snapshot of the conversation and every delete appends a tombstone;
+ * the last record for an ID wins. The file is compacted on startup and whenever it grows to
+ * several times the size of the live conversations. Writes run in order in the background.
+ */
+export class FileConversationStore extends MemoryConversationStore {
+  private filePath: string;
+  /** Size of the latest record of each live conversation, all a compacted log keeps */
+  private liveBytes: Map<string, number> = new Map();
+  private liveTotal = 0;
+  private logBytes = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.load();
+  }
+
+  save(conversation: ConversationState): void {
+    super.save(conversation);
+    this.append(conversation);
+  }
+
+  delete(conversationId: string): boolean {
+    const deleted = super.delete(conversationId);
+    if (deleted) {
+      this.append({ id: conversationId, deleted: true });
+    }
+    return deleted;
+  }
+
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Replay the log file and rewrite it with one line per live conversation
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, "utf-8").split("\n");
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        const record = JSON.parse(line) as ConversationState | DeletedRecord;
+        if ("deleted" in record) {
+          this.conversations.delete(record.id);
+        } else {
+          this.conversations.set(record.id, record);
+        }
+      } catch {
+        // A partially written last line is expected after a crash
+        skipped++;
+      }
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, this.snapshot(), "utf-8");
+    fs.renameSync(tempPath, this.filePath);
+
+    logger.info("Loaded conversations from disk", {
+      path: this.filePath,
+      count: this.conversations.size,
+      skippedLines: skipped,
+    });
+  }
+
+  /**
+   * One line per live conversation, resetting the size bookkeeping to match
+   */
+  private snapshot(): string {
+    this.liveBytes.clear();
+    const lines = this.list().map((conversation) => {
+      const line = `${JSON.stringify(conversation)}\n`;
+      this.liveBytes.set(conversation.id, Buffer.byteLength(line));
+      return line;
+    });
+    this.liveTotal = Array.from(this.liveBytes.values()).reduce((sum, bytes) => sum + bytes, 0);
+    this.logBytes = this.liveTotal;
+    return lines.join("");
+  }
+
+  private append(record: ConversationState | DeletedRecord): void {
+    const line = `${JSON.stringify(record)}\n`;
+    const bytes = Buffer.byteLength(line);
+    this.liveTotal -= this.liveBytes.get(record.id) ?? 0;
+    if ("deleted" in record) {
+      this.liveBytes.delete(record.id);
+    } else {
+      this.liveBytes.set(record.id, bytes);
+      this.liveTotal += bytes;
+    }
+    this.logBytes += bytes;
+
+    this.enqueue(() => fs.promises.appendFile(this.filePath, line, "utf-8"));
+
+    if (this.logBytes >= MIN_COMPACT_BYTES && this.logBytes > this.liveTotal * COMPACT_RATIO) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the log with the current conversations, after the writes already queued
+   */
+  private compact(): void {
+    const before = this.logBytes;
+    const content = this.snapshot();
+    const after = this.logBytes;
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.enqueue(async () => {
+      await fs.promises.writeFile(tempPath, content, "utf-8");
+      await fs.promises.rename(tempPath, this.filePath);
+      logger.debug("Compacted conversation log", {
+        path: this.filePath,
+        bytesBefore: before,
+        bytesAfter: after,
+      });
+    });
+  }
+
+  private enqueue(write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch((error) => {
+      logger.error(
+        "Failed to persist conversation",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    });
+  }
+}
+
+/**
+ * Get the default conversation file location under the user's home directory
+ */
+export function getDefaultStoragePath(): string {
+  const homeDir = process.env.HOME || process.env.USERPROFILE || "";
+  return path.join(homeDir, ".polybrain", "conversations.jsonl");
+}
+
+/**
+ * Create the conversation store selected in config
+ */
+export function createConversationStore(storage?: StorageConfig): ConversationStore {
+  if (storage?.type === "file") {
+    return new FileConversationStore(storage.path || getDefaultStoragePath());
+  }
+  return new MemoryConversationStore();
+}
@@ -0,0 +1,142 @@
+import { mapWithConcurrency } from "./concurrency.js";
+import type { ConversationManager } from "./conversation-manager.js";
+import { ChatCancelledError } from "./errors.js";
+import { logger } from "./logger.js";
+import type { TurnRunner } from "./turn-runner.js";
+
+export interface DebateOptions {
+  question: string;
+  modelIds: string[];
+  judgeModelId: string;
+  /** Rounds of critique and revision after the opening answers */
+  rounds: number;
+  /** Participants and judge start from a clone of this conversation instead of an empty one */
+  sourceConversationId?: string;
+  reasoning?: boolean;
+  /** Model calls made at once within a round */
+  concurrency: number;
+  signal?: AbortSignal;
+}
+
+export interface DebateParticipant {
+  modelId: string;
+  conversationId: string;
+  /** The participant's latest answer */
+  answer: string;
+  /** Rounds in which the participant revised its answer */
+  revisions: number;
+}
+
+export interface DebateFailure {
+  modelId: string;
+  /** 0 for the opening answer, then the critique round */
+  round: number;
+  error: unknown;
+}
+
+export interface DebateResult {
+  participants: DebateParticipant[];
+  failures: DebateFailure[];
+  judge?: { modelId: string; conversationId: string; synthesis: string };
+  judgeError?: unknown;
+}
+
+/**
+ * Have several models answer a question, critique each other's answers for a number of rounds,
+ * and a judge model synthesize the result
+ * Every participant and the judge get their own conversation, which is kept afterwards.
+ * A participant whose opening answer fails drops out; one that fails later keeps its last answer.
+ */
+export async function runDebate(
+  turnRunner: TurnRunner,
+  conversationManager: ConversationManager,
+  options: DebateOptions
+): Promise<DebateResult> {
+  const { question, reasoning, signal } = options;
+  const failures: DebateFailure[] = [];
+
+  const startConversation = (modelId: string) =>
+    options.sourceConversationId
+      ? conversationManager.cloneConversation(options.sourceConversationId, modelId)
+      : conversationManager.createConversation(modelId);
+
+  // Opening answers, given independently
+  const opening = await mapWithConcurrency(
+    options.modelIds,
+    options.concurrency,
+    async (modelId) => {
+      const conversationId = startConversation(modelId);
+      try {
+        const turn = await turnRunner.run(conversationId, question, { reasoning, signal });
+        return { modelId, conversationId, answer: turn.response.content, revisions: 0 };
+      } catch (error) {
+        conversationManager.deleteConversation(conversationId);
+        failures.push({ modelId, round: 0, error });
+        return null;
+      }
+    }
+  );
+  const participants = opening.filter((p): p is DebateParticipant => p !== null);
+
+  // Each round, every participant sees the others' latest answers from the round before
+  for (let round = 1; round <= options.rounds && participants.length > 1; round++) {
+    const previous = participants.map(({ modelId, answer }) => ({ modelId, answer }));
+    await mapWithConcurrency(participants, options.concurrency, async (participant) => {
+      const others = previous.filter((p) => p.modelId !== participant.modelId);
+      try {
+        const turn = await turnRunner.run(participant.conversationId, critiquePrompt(others), {
+          reasoning,
+          signal,
+        });
+        participant.answer = turn.response.content;
+        participant.revisions++;
+      } catch (error) {
+        failures.push({ modelId: participant.modelId, round, error });
+      }
+    });
+
+    logger.debug("Debate round completed", { round, participants: participants.length });
+  }
+
+  if (signal?.aborted) {
+    throw new ChatCancelledError();
+  }
+  if (participants.length === 0) {
+    return { participants, failures };
+  }
+
+  const judgeConversationId = startConversation(options.judgeModelId);
+  try {
+    const turn = await turnRunner.run(judgeConversationId, judgePrompt(question, participants), {
+      reasoning,
+      signal,
+    });
+    return {
+      participants,
+      failures,
+      judge: {
+        modelId: options.judgeModelId,
+        conversationId: judgeConversationId,
+        synthesis: turn.response.content,
+      },
+    };
+  } catch (error) {
+    if (error instanceof ChatCancelledError) {
+      throw error;
+    }
+    conversationManager.deleteConversation(judgeConversationId);
+    return { participants, failures, judgeError: error };
+  }
+}
+
+function formatAnswers(answers: Array<{ modelId: string; answer: string }>): string {
+  return answers.map(({ modelId, answer }) => `### Answer from ${modelId}\n${answer}`).join("\n\n");
+}
+
+function critiquePrompt(others: Array<{ modelId: string; answer: string }>): string {
+  return `Other models were asked the same question. Their latest answers:\n\n${formatAnswers(others)}\n\nCritique these answers and your own: point out mistakes, gaps and better ideas. Then give your complete revised answer, keeping what still holds.`;
+}
+
+function judgePrompt(question: string, participants: DebateParticipant[]): string {
+  return `You are judging a debate in which ${participants.length} models answered the question below and revised their answers after critiquing each other. Write the final synthesis: say where they agree, settle where they disagree by explaining which side is right, and give the best complete answer.\n\nQuestion:\n${question}\n\n${formatAnswers(participants)}`;
+}
@@ -0,0 +1,109 @@
+/**
+ * Thrown when a chat request is aborted by the caller before the model answers
+ */
+export class ChatCancelledError extends Error {
+  constructor(message = "Chat request was cancelled") {
+    super(message);
+    this.name = "ChatCancelledError";
+  }
+}
+
+/**
+ * Thrown before a request would go over a configured spending or rate limit
+ */
+export class BudgetExceededError extends Error {
+  /** What the limit applies to: all models, one model or one conversation */
+  readonly scope: "server" | "model" | "conversation";
+  /** The config field that was hit, e.g. maxCostPerDay */
+  readonly limit: string;
+  readonly max: number;
+  readonly used: number;
+  /** When the limit frees up again; unset for conversation limits, which never reset */
+  readonly resetsAt?: number;
+
+  constructor(
+    message: string,
+    details: {
+      scope: "server" | "model" | "conversation";
+      limit: string;
+      max: number;
+      used: number;
+      resetsAt?: number;
+    }
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+    this.scope = details.scope;
+    this.limit = details.limit;
+    this.max = details.max;
+    this.used = details.used;
+    this.resetsAt = details.resetsAt;
+  }
+}
+
+/**
+ * Base class for failures reported by (or on the way to) a model provider
+ */
+export class ProviderError extends Error {
+  readonly modelId: string;
+  readonly status?: number;
+  /** Whether the same request may succeed if sent again */
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    modelId: string,
+    options: { status?: number; retryable?: boolean } = {}
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.modelId = modelId;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * The provider rejected the request with HTTP 429
+ */
+export class RateLimitError extends ProviderError {
+  /** Delay the provider asked for before retrying, if it sent one */
+  readonly retryAfterMs?: number;
+
+  constructor(modelId: string, detail: string, retryAfterMs?: number) {
+    const hint =
+      retryAfterMs !== undefined ? `, retry after ${Math.ceil(retryAfterMs / 1000)}s` : "";
+    super(`Rate limited by provider for model ${modelId} (HTTP 429${hint}): ${detail}`, modelId, {
+      status: 429,
+      retryable: true,
+    });
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The provider failed with a 5xx response or could not be reached
+ */
+export class ProviderUnavailableError extends ProviderError {
+  constructor(modelId: string, detail: string, status?: number) {
+    const code = status !== undefined ? `HTTP ${status}` : "connection failed";
+    super(`Provider unavailable for model ${modelId} (${code}): ${detail}`, modelId, {
+      status,
+      retryable: true,
+    });
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+/**
+ * The provider did not answer within the model's timeout
+ */
+export class ProviderTimeoutError extends ProviderError {
+  constructor(modelId: string, timeoutMs: number) {
+    super(`Provider did not respond for model ${modelId} within ${timeoutMs}ms`, modelId, {
+      retryable: true,
+    });
+    this.name = "ProviderTimeoutError";
+  }
+}
@@ -0,0 +1,262 @@
+import { ProviderError } from "./errors.js";
+import {
+  BaseLLMClient,
+  type ChatDelta,
+  type ChatOptions,
+  type ChatResult,
+  type ClientOptions,
+  type TimedResponse,
+  readServerSentEvents,
+  resolveReasoning,
+} from "./llm-client.js";
+import { logger } from "./logger.js";
+import type { ChatMessage, TokenUsage } from "./types.js";
+
+export interface GeminiClientOptions extends ClientOptions {
+  maxOutputTokens?: number;
+}
+
+interface GeminiPart {
+  text?: string;
+  /** Set on thought summary parts when includeThoughts is enabled */
+  thought?: boolean;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: Record<string, number>;
+}
+
+/**
+ * Token counts from usageMetadata; thinking tokens are billed as output
+ */
+function toUsage(metadata: Record<string, number> | undefined): TokenUsage | undefined {
+  if (metadata?.promptTokenCount === undefined) {
+    return undefined;
+  }
+  return {
+    inputTokens: metadata.promptTokenCount,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    reasoningTokens: metadata.thoughtsTokenCount,
+  };
+}
+
+/**
+ * Client for the Google Gemini generateContent API, spoken directly over fetch
+ */
+export class GeminiClient extends BaseLLMClient {
+  protected readonly providerName = "Gemini";
+  private apiKey: string;
+  private baseUrl: string;
+  private maxOutputTokens?: number;
+
+  constructor(
+    apiKey: string,
+    baseUrl = "https://generativelanguage.googleapis.com/v1beta",
+    options: GeminiClientOptions = {}
+  ) {
+    super(options);
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.maxOutputTokens = options.maxOutputTokens;
+  }
+
+  /**
+   * Build the request body; Gemini calls the assistant role "model"
+   * Reasoning effort is sent as a thinking budget.
+   */
+  private buildBody(messages: ChatMessage[], options: ChatOptions): Record<string, unknown> {
+    const generation = options.generation ?? {};
+    const generationConfig: Record<string, unknown> = Object.fromEntries(
+      Object.entries({
+        temperature: generation.temperature,
+        topP: generation.topP,
+        maxOutputTokens: generation.maxTokens ?? this.maxOutputTokens,
+        stopSequences: generation.stop,
+        seed: generation.seed,
+      }).filter(([, value]) => value !== undefined)
+    );
+    const reasoning = resolveReasoning(options);
+    if (reasoning.enabled) {
+      // Without a budget the model decides how long to think
+      generationConfig.thinkingConfig = {
+        includeThoughts: !reasoning.exclude,
+        thinkingBudget: reasoning.budgetTokens,
+      };
+    }
+
+    return {
+      contents: messages.map((msg) => ({
+        role: msg.role === "assistant" ? "model" : "user",
+        parts: [{ text: msg.content }],
+      })),
+      systemInstruction: options.systemPrompt
+        ? { parts: [{ text: options.systemPrompt }] }
+        : undefined,
+      generationConfig,
+    };
+  }
+
+  /**
+   * POST to generateContent, or streamGenerateContent as server-sent events
+   */
+  private post(
+    modelName: string,
+    body: Record<string, unknown>,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<TimedResponse> {
+    const method = stream ? "streamGenerateContent?alt=sse" : "generateContent";
+    return this.postJson(
+      `${this.baseUrl}/models/${encodeURIComponent(modelName)}:${method}`,
+      { "x-goog-api-key": this.apiKey },
+      body,
+      modelName,
+      signal
+    );
+  }
+
+  protected errorDetail(data: unknown): string | undefined {
+    const error = (data as { error?: { status?: string; message?: string } }).error;
+    return error?.message ? `${error.status ?? "error"}: ${error.message}` : undefined;
+  }
+
+  /**
+   * Split a response chunk into answer text and thought summaries
+   */
+  private readParts(data: GeminiResponse, modelName: string): ChatDelta {
+    if (data.promptFeedback?.blockReason) {
+      throw new ProviderError(
+        `Gemini blocked the prompt: ${data.promptFeedback.blockReason}`,
+        modelName
+      );
+    }
+
+    let content = "";
+    let reasoning = "";
+    for (const part of data.candidates?.[0]?.content?.parts ?? []) {
+      if (!part.text) {
+        continue;
+      }
+      if (part.thought) {
+        reasoning += part.text;
+      } else {
+        content += part.text;
+      }
+    }
+    return { content, reasoning };
+  }
+
+  /**
+   * Make a single generateContent request, streamed if the caller wants progress
+   */
+  protected async complete(
+    modelName: string,
+    messages: ChatMessage[],
+    options: ChatOptions
+  ): Promise<ChatResult> {
+    const body = this.buildBody(messages, options);
+
+    if (options.onProgress) {
+      const streamed = await this.streamCompletion(
+        modelName,
+        body,
+        options.onProgress,
+        options.signal
+      );
+      return {
+        ...streamed,
+        reasoning: resolveReasoning(options).exclude ? undefined : streamed.reasoning,
+      };
+    }
+
+    const { response, done } = await this.post(modelName, body, false, options.signal);
+    let data: GeminiResponse;
+    try {
+      data = (await response.json()) as GeminiResponse;
+    } finally {
+      done();
+    }
+
+    const { content, reasoning } = this.readParts(data, modelName);
+    if (!content) {
+      throw new Error(
+        `No content in response from Gemini (finish reason: ${data.candidates?.[0]?.finishReason ?? "unknown"})`
+      );
+    }
+
+    logger.debug("Received response from Gemini", {
+      model: modelName,
+      tokens: data.usageMetadata?.totalTokenCount,
+    });
+
+    return {
+      content,
+      reasoning: !resolveReasoning(options).exclude && reasoning ? reasoning : undefined,
+      usage: toUsage(data.usageMetadata),
+    };
+  }
+
+  /**
+   * Stream a response, reporting text and thought summaries as they arrive
+   */
+  private async streamCompletion(
+    modelName: string,
+    body: Record<string, unknown>,
+    onProgress: (delta: ChatDelta) => void,
+    signal?: AbortSignal
+  ): Promise<ChatResult> {
+    const { response, done } = await this.post(modelName, body, true, signal);
+
+    let content = "";
+    let reasoning = "";
+    let usage: TokenUsage | undefined;
+
+    try {
+      for await (const event of readServerSentEvents(response)) {
+        // Each chunk carries the running totals, so the last one wins
+        usage = toUsage((event as GeminiResponse).usageMetadata) ?? usage;
+        const delta = this.readParts(event as GeminiResponse, modelName);
+        if (delta.content || delta.reasoning) {
+          content += delta.content;
+          reasoning += delta.reasoning;
+          onProgress(delta);
+        }
+      }
+    } finally {
+      done();
+    }
+
+    this.throwIfAborted(signal);
+
+    if (!content) {
+      throw new Error("No content in response from Gemini");
+    }
+
+    logger.debug("Received streamed response from Gemini", {
+      model: modelName,
+      contentLength: content.length,
+      reasoningLength: reasoning.length,
+    });
+
+    return {
+      content,
+      reasoning: reasoning || undefined,
+      usage,
+    };
+  }
+
+  protected async ping(modelName: string): Promise<void> {
+    const { response, done } = await this.post(
+      modelName,
+      {
+        contents: [{ role: "user", parts: [{ text: "ping" }] }],
+        generationConfig: { maxOutputTokens: 1 },
+      },
+      false
+    );
+    done();
+    await response.body?.cancel();
+  }
+}
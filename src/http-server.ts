@@ -1,19 +1,31 @@
 import type { Server } from "node:http";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isJSONRPCRequest } from "@modelcontextprotocol/sdk/types.js";
 import express from "express";
 import type { Express, Request, Response } from "express";
 import { logger } from "./logger.js";
+import type { HttpResponseMode } from "./types.js";
 
 export class HTTPServer {
   private app: Express;
   private httpServer: Server | null = null;
-  private mcpServer: McpServer;
+  private createMcpServer: () => McpServer;
   private port: number;
+  private responseMode: HttpResponseMode;
 
-  constructor(mcpServer: McpServer, port: number) {
-    this.mcpServer = mcpServer;
+  /**
+   * @param createMcpServer Builds a fresh MCP server per request, so notifications sent while
+   * handling one request are not routed to another request's transport
+   */
+  constructor(
+    createMcpServer: () => McpServer,
+    port: number,
+    responseMode: HttpResponseMode = "sse"
+  ) {
+    this.createMcpServer = createMcpServer;
     this.port = port;
+    this.responseMode = responseMode;
     this.app = express();
     this.setupRoutes();
   }
@@ -33,19 +45,31 @@ export class HTTPServer {
       // Create a new stateless transport for this request
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: undefined, // Stateless mode - no session IDs
-        enableJsonResponse: true, // Return JSON response instead of SSE stream
+        // SSE streams progress notifications before the result; JSON returns only the result
+        enableJsonResponse: this.responseMode === "json",
       });
+      const mcpServer = this.createMcpServer();
 
       // Clean up transport when response is sent or connection closes
       res.on("close", () => {
+        // A client that disconnects before the response has given up on the request,
+        // so cancel it to abort the upstream model call
+        if (!res.writableFinished && isJSONRPCRequest(req.body)) {
+          transport.onmessage?.({
+            jsonrpc: "2.0",
+            method: "notifications/cancelled",
+            params: { requestId: req.body.id, reason: "Client disconnected" },
+          });
+        }
         transport.close();
+        mcpServer.close();
       });
 
       try {
         // Connect the MCP server to the transport
-        await this.mcpServer.connect(transport);
+        await mcpServer.connect(transport);
 
-        // Handle the request - response will be sent as JSON
+        // Handle the request - response is sent as JSON or an SSE stream
         await transport.handleRequest(req, res, req.body);
       } catch (error) {
         logger.error("Error handling MCP request", error as Error);
@@ -55,6 +79,13 @@ export class HTTPServer {
       }
     });
 
+    // Stateless mode has no standalone SSE stream or session to terminate
+    // 405 tells clients (including the stdio proxy) not to retry these
+    this.app.all("/mcp", (req: Request, res: Response) => {
+      logger.debug("MCP method not allowed", { method: req.method });
+      res.status(405).set("Allow", "POST").json({ error: "Method not allowed" });
+    });
+
     // 404 handler
     this.app.use((_req: Request, res: Response) => {
       logger.debug("404 - not found", { url: _req.url });
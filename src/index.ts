@@ -1,12 +1,18 @@
 import * as net from "node:net";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { BudgetGuard } from "./budget-guard.js";
 import { loadConfig } from "./config.js";
-import { ConversationManager } from "./conversation-manager.js";
+import { ConversationManager, type ConversationManagerOptions } from "./conversation-manager.js";
+import { createConversationStore } from "./conversation-store.js";
 import { HTTPServer } from "./http-server.js";
+import type { LLMClient } from "./llm-client.js";
 import { logger, setLogLevel } from "./logger.js";
 import { registerTools } from "./mcp-tools.js";
-import { OpenAIClient } from "./openai-client.js";
+import { createLLMClient, createModelBackends } from "./model-backends.js";
+import { ConversationSummarizer } from "./summarizer.js";
+import type { ServerConfig } from "./types.js";
+import { UsageTracker } from "./usage-tracker.js";
 
 async function isPortInUse(port: number): Promise<boolean> {
   return new Promise((resolve) => {
@@ -26,6 +32,48 @@ async function isPortInUse(port: number): Promise<boolean> {
   });
 }
 
+/**
+ * Create the conversation manager with the storage and history options from config
+ */
+function createConversationManager(
+  config: ServerConfig,
+  clients: Map<string, LLMClient>,
+  usageTracker: UsageTracker
+): ConversationManager {
+  let summarization: ConversationManagerOptions["summarization"];
+  if (config.summarization) {
+    const { modelId, keepRecentMessages } = config.summarization;
+    const client = clients.get(modelId);
+    const model = config.models.find((m) => m.id === modelId);
+    if (client && model) {
+      summarization = {
+        summarizer: new ConversationSummarizer(client, model, usageTracker),
+        keepRecentMessages,
+      };
+    }
+  }
+
+  // Stored conversations keep counting what they spent before a restart towards their budget
+  const store = createConversationStore(config.storage);
+  for (const conversation of store.list()) {
+    usageTracker.restoreConversation(conversation, config.models);
+  }
+
+  return new ConversationManager({
+    truncateLimit: config.truncateLimit,
+    contextStrategy: config.contextStrategy,
+    store,
+    ttlMinutes: config.conversationTtlMinutes,
+    maxConversations: config.maxConversations,
+    idOptions: {
+      format: config.conversationIdFormat,
+      length: config.conversationIdLength,
+    },
+    summarization,
+    usageTracker,
+  });
+}
+
 async function startServerOnly(): Promise<void> {
   try {
     const config = loadConfig();
@@ -45,39 +93,52 @@ async function startServerOnly(): Promise<void> {
       models: config.models.length,
     });
 
-    // Initialize conversation manager
-    const conversationManager = new ConversationManager(config.truncateLimit);
-
-    // Initialize OpenAI clients for each model
-    const openaiClients = new Map<string, OpenAIClient>();
+    // Initialize a client for each model
+    const clients = new Map<string, LLMClient>();
     for (const model of config.models) {
-      openaiClients.set(model.id, new OpenAIClient(model.apiKey, model.baseUrl));
-      logger.debug("Registered model", { modelId: model.id, baseUrl: model.baseUrl });
+      clients.set(model.id, createLLMClient(model));
+      logger.debug("Registered model", {
+        modelId: model.id,
+        baseUrl: model.baseUrl,
+        provider: model.provider,
+      });
     }
 
-    // Create MCP server
-    const mcpServer = new McpServer({
-      name: "polybrain",
-      version: "1.0.0",
-    });
-
-    // Register tools
-    registerTools(mcpServer, conversationManager, openaiClients, config);
+    // Initialize conversation manager and usage accounting
+    const usageTracker = new UsageTracker();
+    const conversationManager = createConversationManager(config, clients, usageTracker);
+    const budgetGuard = new BudgetGuard(config.budgets, usageTracker);
+    const backends = createModelBackends(config, clients);
+
+    // Create an MCP server per request, all sharing the same conversations and clients
+    const createMcpServer = () => {
+      const mcpServer = new McpServer({
+        name: "polybrain",
+        version: "1.0.0",
+      });
+      registerTools(mcpServer, conversationManager, backends, config, {
+        usageTracker,
+        budgetGuard,
+      });
+      return mcpServer;
+    };
 
     // Start HTTP server
-    const httpServer = new HTTPServer(mcpServer, config.httpPort);
+    const httpServer = new HTTPServer(createMcpServer, config.httpPort, config.httpResponseMode);
     await httpServer.start();
 
     // Handle graceful shutdown
     process.on("SIGTERM", async () => {
       logger.info("SIGTERM received, shutting down gracefully");
       await httpServer.stop();
+      await conversationManager.flush();
       process.exit(0);
     });
 
     process.on("SIGINT", async () => {
       logger.info("SIGINT received, shutting down gracefully");
       await httpServer.stop();
+      await conversationManager.flush();
       process.exit(0);
     });
 
@@ -99,16 +160,23 @@ async function startStdioMode(): Promise<void> {
 
     logger.info("Starting Polybrain MCP Server (stdio mode)");
 
-    // Initialize conversation manager
-    const conversationManager = new ConversationManager(config.truncateLimit);
-
-    // Initialize OpenAI clients for each model
-    const openaiClients = new Map<string, OpenAIClient>();
+    // Initialize a client for each model
+    const clients = new Map<string, LLMClient>();
     for (const model of config.models) {
-      openaiClients.set(model.id, new OpenAIClient(model.apiKey, model.baseUrl));
-      logger.debug("Registered model", { modelId: model.id, baseUrl: model.baseUrl });
+      clients.set(model.id, createLLMClient(model));
+      logger.debug("Registered model", {
+        modelId: model.id,
+        baseUrl: model.baseUrl,
+        provider: model.provider,
+      });
     }
 
+    // Initialize conversation manager and usage accounting
+    const usageTracker = new UsageTracker();
+    const conversationManager = createConversationManager(config, clients, usageTracker);
+    const budgetGuard = new BudgetGuard(config.budgets, usageTracker);
+    const backends = createModelBackends(config, clients);
+
     // Create MCP server
     const mcpServer = new McpServer({
       name: "polybrain",
@@ -116,7 +184,10 @@ async function startStdioMode(): Promise<void> {
     });
 
     // Register tools
-    registerTools(mcpServer, conversationManager, openaiClients, config);
+    registerTools(mcpServer, conversationManager, backends, config, {
+      usageTracker,
+      budgetGuard,
+    });
 
     // Connect via stdio
     const transport = new StdioServerTransport();
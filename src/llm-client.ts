@@ -0,0 +1,468 @@
+import {
+  ChatCancelledError,
+  ProviderError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+  RateLimitError,
+} from "./errors.js";
+import { logger } from "./logger.js";
+import type {
+  BackoffPolicy,
+  ChatMessage,
+  GenerationParams,
+  ProviderType,
+  ReasoningConfig,
+  ReasoningDetails,
+  ReasoningEffort,
+  TokenUsage,
+} from "./types.js";
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BACKOFF: Required<BackoffPolicy> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+};
+
+export interface ClientOptions {
+  timeoutMs?: number;
+  /** Retries after the first attempt for rate limits, 5xx, timeouts and connection errors */
+  maxRetries?: number;
+  backoff?: BackoffPolicy;
+}
+
+/**
+ * Text received since the previous progress callback
+ */
+export interface ChatDelta {
+  content: string;
+  reasoning: string;
+}
+
+export interface ChatResult {
+  content: string;
+  reasoning?: string;
+  /** Stored with the reply so the provider can be given its reasoning back next turn */
+  reasoningDetails?: ReasoningDetails;
+  usage?: TokenUsage;
+}
+
+export interface ChatOptions {
+  reasoning?: boolean;
+  provider?: ProviderType;
+  generation?: GenerationParams;
+  /** Instructions sent ahead of the conversation, in the provider's own format */
+  systemPrompt?: string;
+  /** The model's reasoning settings; generation.reasoningEffort overrides the effort */
+  reasoningConfig?: ReasoningConfig;
+  /** Stream the completion and report partial output as it arrives */
+  onProgress?: (delta: ChatDelta) => void;
+  /** Aborts the upstream request, e.g. when the MCP tool call is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * A fetch response whose timeout keeps running until done() is called after reading the body
+ */
+export interface TimedResponse {
+  response: Response;
+  done: () => void;
+}
+
+/**
+ * Reasoning settings for a single request
+ */
+export interface ResolvedReasoning {
+  enabled: boolean;
+  effort?: ReasoningEffort;
+  /** Budget configured for the model, unless the call asked for an effort level instead */
+  maxTokens?: number;
+  /** Budget for providers that only take tokens: maxTokens, or one derived from the effort */
+  budgetTokens?: number;
+  /** Reasoning is not returned to the caller */
+  exclude: boolean;
+}
+
+/** Thinking budgets used for providers that take tokens rather than an effort level */
+const EFFORT_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+};
+
+/**
+ * Combine the call's reasoning flag and effort with the model's reasoning config
+ * Asking for reasoning in the call, or configuring an effort or budget for the model, turns it on.
+ */
+export function resolveReasoning(options: ChatOptions): ResolvedReasoning {
+  const config = options.reasoningConfig ?? {};
+  const callEffort = options.generation?.reasoningEffort;
+  const effort = callEffort ?? config.effort;
+  const maxTokens = callEffort ? undefined : config.maxTokens;
+
+  return {
+    enabled: !!options.reasoning || effort !== undefined || maxTokens !== undefined,
+    effort,
+    maxTokens,
+    budgetTokens: maxTokens ?? (effort ? EFFORT_BUDGETS[effort] : undefined),
+    exclude: !!config.exclude || !options.reasoning,
+  };
+}
+
+/**
+ * Reasoning blocks stored with an earlier reply, if they may be sent back in this request
+ * Providers reject blocks produced by another provider or model, or sent while reasoning is off.
+ */
+export function reusableReasoningDetails(
+  message: ChatMessage,
+  modelName: string,
+  options: ChatOptions
+): Record<string, unknown>[] | undefined {
+  const details = message.reasoningDetails;
+  if (
+    !details ||
+    details.provider !== options.provider ||
+    details.modelName !== modelName ||
+    !resolveReasoning(options).enabled
+  ) {
+    return undefined;
+  }
+  return details.blocks;
+}
+
+/**
+ * What the tools need from a model provider, whatever its wire format
+ */
+export interface LLMClient {
+  /**
+   * Send the conversation and get the model's reply
+   */
+  chat(modelName: string, messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+
+  /**
+   * Validate that a model is accessible
+   */
+  validateModel(modelName: string): Promise<boolean>;
+
+  /**
+   * List the model names the endpoint offers, where the provider supports it
+   */
+  listModels?(): Promise<string[]>;
+}
+
+/**
+ * Shared timeout, retry and cancellation handling; providers implement a single attempt
+ */
+export abstract class BaseLLMClient implements LLMClient {
+  /** Provider name used in error messages */
+  protected abstract readonly providerName: string;
+  protected timeoutMs: number;
+  private maxRetries: number;
+  private backoff: Required<BackoffPolicy>;
+
+  constructor(options: ClientOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+  }
+
+  /**
+   * Make a single request, streamed if the caller wants progress
+   */
+  protected abstract complete(
+    modelName: string,
+    messages: ChatMessage[],
+    options: ChatOptions
+  ): Promise<ChatResult>;
+
+  /**
+   * Send the smallest request that proves the model is accessible, throwing if it is not
+   */
+  protected abstract ping(modelName: string): Promise<void>;
+
+  /**
+   * Map a failed attempt to a typed provider error
+   * The default handles errors from postJson; clients built on an SDK map its errors instead.
+   */
+  protected classifyError(error: unknown, modelName: string): ProviderError {
+    if (error instanceof ProviderError) {
+      return error;
+    }
+    // fetch rejects with a TypeError when the endpoint cannot be reached
+    if (error instanceof TypeError) {
+      return new ProviderUnavailableError(modelName, error.message);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new ProviderError(
+      `Failed to get response from ${this.providerName}: ${errorMessage}`,
+      modelName
+    );
+  }
+
+  /**
+   * Whether the error means the request was aborted through the caller's signal
+   */
+  protected isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === "AbortError";
+  }
+
+  /**
+   * Read the provider's description of a failure from a JSON error body
+   */
+  protected errorDetail(_data: unknown): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Validate that a model is accessible
+   */
+  async validateModel(modelName: string): Promise<boolean> {
+    try {
+      logger.debug("Validating model", { model: modelName });
+      await this.ping(modelName);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn("Model validation failed", {
+        model: modelName,
+        error: errorMessage,
+      });
+
+      return false;
+    }
+  }
+
+  /**
+   * Send a chat message and get a response
+   */
+  async chat(
+    modelName: string,
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): Promise<ChatResult> {
+    logger.debug("Sending chat request", {
+      model: modelName,
+      messageCount: messages.length,
+      reasoning: options.reasoning,
+    });
+
+    // Partial output already reached the caller, so a retry would repeat it
+    let streamed = false;
+    // Excluded reasoning is dropped here so it never reaches progress notifications either
+    const { exclude } = resolveReasoning(options);
+    const onProgress = options.onProgress
+      ? (delta: ChatDelta) => {
+          const reasoning = exclude ? "" : delta.reasoning;
+          if (!delta.content && !reasoning) {
+            return;
+          }
+          streamed = true;
+          options.onProgress?.({ content: delta.content, reasoning });
+        }
+      : undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.complete(modelName, messages, { ...options, onProgress });
+      } catch (error) {
+        if (error instanceof ChatCancelledError) {
+          throw error;
+        }
+        if (this.isAbortError(error) || options.signal?.aborted) {
+          logger.debug("Chat request cancelled", { model: modelName });
+          throw new ChatCancelledError();
+        }
+
+        const providerError = this.classifyError(error, modelName);
+        if (!providerError.retryable || attempt >= this.maxRetries || streamed) {
+          logger.error("Provider API error", {
+            model: modelName,
+            error: providerError.message,
+            attempts: attempt + 1,
+          });
+          throw providerError;
+        }
+
+        const delayMs = this.getRetryDelay(attempt, providerError);
+        logger.warn("Retrying chat request", {
+          model: modelName,
+          error: providerError.message,
+          attempt: attempt + 1,
+          delayMs: Math.round(delayMs),
+        });
+        await sleep(delayMs, options.signal);
+      }
+    }
+  }
+
+  /**
+   * POST a JSON body with the client timeout and the caller's signal
+   * A non-2xx response is thrown as a typed provider error.
+   */
+  protected async postJson(
+    url: string,
+    headers: Record<string, string>,
+    body: Record<string, unknown>,
+    modelName: string,
+    signal?: AbortSignal
+  ): Promise<TimedResponse> {
+    // Aborting with a reason makes both fetch and the body stream reject with it, so a timeout
+    // mid-stream surfaces as a timeout rather than a cancellation
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      controller.abort(new ProviderTimeoutError(modelName, this.timeoutMs));
+    }, this.timeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw await this.toProviderError(response, modelName);
+      }
+      return { response, done };
+    } catch (error) {
+      done();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a stream that ended because the caller aborted it
+   * An aborted stream can end without throwing, leaving only partial output.
+   */
+  protected throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) {
+      throw new ChatCancelledError();
+    }
+  }
+
+  /**
+   * Turn a non-2xx response into a typed provider error
+   */
+  private async toProviderError(response: Response, modelName: string): Promise<ProviderError> {
+    let detail = response.statusText;
+    try {
+      detail = this.errorDetail(await response.json()) ?? detail;
+    } catch {
+      // Keep the status text when the body is not JSON
+    }
+
+    if (response.status === 429) {
+      return new RateLimitError(
+        modelName,
+        detail,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+    // Includes nonstandard overload statuses such as Anthropic's 529
+    if (response.status >= 500) {
+      return new ProviderUnavailableError(modelName, detail, response.status);
+    }
+    return new ProviderError(
+      `Failed to get response from ${this.providerName} (HTTP ${response.status}): ${detail}`,
+      modelName,
+      { status: response.status }
+    );
+  }
+
+  /**
+   * Delay before the given retry, honoring Retry-After when the provider sent one
+   */
+  private getRetryDelay(attempt: number, error: ProviderError): number {
+    if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.backoff.maxDelayMs);
+    }
+
+    const delay = this.backoff.initialDelayMs * this.backoff.multiplier ** attempt;
+    // Jitter spreads out retries from concurrent calls hitting the same limit
+    const jitter = 0.5 + Math.random() / 2;
+    return Math.min(delay * jitter, this.backoff.maxDelayMs);
+  }
+}
+
+/**
+ * Read a Retry-After header value (seconds or HTTP date)
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Parse the JSON payloads of a server-sent event stream
+ */
+export async function* readServerSentEvents(
+  response: Response
+): AsyncGenerator<Record<string, unknown>> {
+  if (!response.body) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, "\n");
+
+    // Events are separated by a blank line; only their data lines matter here
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const data = rawEvent
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) {
+        yield JSON.parse(data) as Record<string, unknown>;
+      }
+    }
+  }
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ChatCancelledError());
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ChatCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
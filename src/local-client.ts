@@ -0,0 +1,59 @@
+import {
+  type ChatDelta,
+  type ChatOptions,
+  type ChatResult,
+  type ClientOptions,
+  resolveReasoning,
+} from "./llm-client.js";
+import { OpenAIClient } from "./openai-client.js";
+import { ThinkTagSplitter, splitThinkTags } from "./think-tags.js";
+import type { ChatMessage } from "./types.js";
+
+/**
+ * Client for local OpenAI-compatible servers such as Ollama, llama.cpp and vLLM
+ * These need no API key and often return reasoning inline as <think>...</think> in the content.
+ */
+export class LocalClient extends OpenAIClient {
+  constructor(apiKey: string, baseUrl: string, options: ClientOptions = {}) {
+    // The SDK refuses an empty key; local servers ignore it unless started with one
+    super(apiKey || "local", baseUrl, options);
+  }
+
+  /**
+   * Split <think> blocks out of the content, both in streamed progress and in the final result
+   */
+  protected async complete(
+    modelName: string,
+    messages: ChatMessage[],
+    options: ChatOptions
+  ): Promise<ChatResult> {
+    const { onProgress } = options;
+    const splitter = new ThinkTagSplitter();
+    const report = (delta: ChatDelta, extraReasoning = "") => {
+      const reasoning = extraReasoning + delta.reasoning;
+      if (onProgress && (delta.content || reasoning)) {
+        onProgress({ content: delta.content, reasoning });
+      }
+    };
+
+    const result = await super.complete(modelName, messages, {
+      ...options,
+      onProgress: onProgress
+        ? (delta) => report(splitter.push(delta.content), delta.reasoning)
+        : undefined,
+    });
+    report(splitter.flush());
+
+    // Servers that already separate reasoning (e.g. reasoning_content) leave no tags to split
+    const { content, reasoning } = splitThinkTags(result.content);
+    if (!content) {
+      throw new Error("No content in response from local model, only reasoning");
+    }
+    const combined = [result.reasoning, reasoning].filter(Boolean).join("\n");
+    return {
+      ...result,
+      content,
+      reasoning: !resolveReasoning(options).exclude && combined ? combined : undefined,
+    };
+  }
+}
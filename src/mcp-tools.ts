@@ -1,30 +1,130 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { AttachmentLoader, formatWithAttachments } from "./attachments.js";
+import type { BudgetGuard } from "./budget-guard.js";
+import { mapWithConcurrency } from "./concurrency.js";
 import type { ConversationManager } from "./conversation-manager.js";
+import { runDebate } from "./debate.js";
+import { BudgetExceededError, ChatCancelledError, ProviderError } from "./errors.js";
 import { logger } from "./logger.js";
-import type { OpenAIClient } from "./openai-client.js";
-import type { ModelInfo, ServerConfig } from "./types.js";
+import type { ModelBackend } from "./model-backends.js";
+import { ProgressReporter, type ToolExtra } from "./progress-reporter.js";
+import { type TurnResult, TurnRunner } from "./turn-runner.js";
+import type { AttachmentInfo, GenerationParams, ModelInfo, ServerConfig } from "./types.js";
+import type { UsageTotals, UsageTracker } from "./usage-tracker.js";
+
+const DEFAULT_FAN_OUT_CONCURRENCY = 4;
+
+const attachmentsSchema = z
+  .array(
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe("Absolute path of a file to attach; must be under the server's allowed roots."),
+      startLine: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("First line of the file to attach, counted from 1."),
+      endLine: z.number().int().min(1).optional().describe("Last line of the file to attach."),
+      content: z.string().optional().describe("Code or text to attach instead of a file."),
+      language: z
+        .string()
+        .optional()
+        .describe(
+          'Language of the code block, e.g. "ts"; taken from the file extension if omitted.'
+        ),
+    })
+  )
+  .max(20)
+  .optional()
+  .describe(
+    "Files, line ranges of files, or snippets to send with the message as code blocks, instead of pasting them into it."
+  );
 
 export function registerTools(
   server: McpServer,
   conversationManager: ConversationManager,
-  openaiClients: Map<string, OpenAIClient>,
-  config: ServerConfig
+  backends: Map<string, ModelBackend[]>,
+  config: ServerConfig,
+  accounting: { usageTracker: UsageTracker; budgetGuard: BudgetGuard }
 ): void {
+  const { usageTracker } = accounting;
+  const turnRunner = new TurnRunner(conversationManager, backends, config, accounting);
+  const attachmentLoader = new AttachmentLoader(config.attachments);
+
+  /**
+   * Ask a local server which models it has, so the agent can see what is loaded
+   */
+  const listServerModels = async (modelId: string): Promise<string[] | undefined> => {
+    const client = backends.get(modelId)?.[0]?.client;
+    try {
+      return await client?.listModels?.();
+    } catch (error) {
+      logger.warn("Failed to list models from local server", {
+        modelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  };
+
+  /**
+   * Send a message that replaces the conversation's messages from replaceFrom on,
+   * for the tools that rewrite a conversation; the old messages stay if the call fails
+   */
+  const replaceTurn = async (
+    conversationId: string,
+    replaceFrom: number,
+    message: string,
+    options: { reasoning?: boolean; generation?: GenerationParams; attachments?: AttachmentInfo[] },
+    extra: ToolExtra
+  ): Promise<string> => {
+    const progress = ProgressReporter.forRequest(extra);
+    const turn = await turnRunner.run(conversationId, message, {
+      ...options,
+      onProgress: progress ? (delta) => progress.report(delta) : undefined,
+      signal: extra.signal,
+      replaceFrom,
+    });
+    progress?.flush();
+
+    const conversation = conversationManager.getConversation(conversationId);
+    return JSON.stringify({
+      conversationId,
+      alias: conversation?.alias,
+      persona: conversation?.persona,
+      response: turn.response.content,
+      reasoning: turn.response.reasoning,
+      modelId: conversation?.modelId,
+      answeredBy: turn.answeredBy.label,
+      usedFallback: turn.usedFallback,
+      messageCount: conversation?.messages.length,
+    });
+  };
+
   // Chat tool
   server.registerTool(
     "chat",
     {
       title: "Chat with Another LLM Model",
       description:
-        'Send a message to an available LLM for help, second opinions, or brainstorming; start new conversations, continue existing ones, or switch models mid-chat. In the first message you shall provide as much context as possible, since the model has no idea of the problem.\n\nExample workflow:\n1. chat(message: "hello", modelId: "gpt-5-mini") → conversationId: "abc1"\n2. chat(message: "follow-up", conversationId: "abc1") → conversationId: "abc1" (continues)\n3. chat(message: "same question", conversationId: "abc1", modelId: "deepseek-r1") → conversationId: "xyz9" (cloned with new model)',
+        'Send a message to an available LLM for help, second opinions, or brainstorming; start new conversations, continue existing ones, or switch models mid-chat. Sampling settings such as temperature and maxTokens apply to this call only and override the defaults of the model. In the first message you shall provide as much context as possible, since the model has no idea of the problem; send relevant source files as attachments rather than pasting them into the message. If a call fails, nothing is saved to the conversation, so retry by sending the same message again.\n\nExample workflow:\n1. chat(message: "hello", modelId: "gpt-5-mini") → conversationId: "abc1"\n2. chat(message: "follow-up", conversationId: "abc1") → conversationId: "abc1" (continues)\n3. chat(message: "same question", conversationId: "abc1", modelId: "deepseek-r1") → conversationId: "xyz9" (cloned with new model)\n4. chat(message: "review this", alias: "auth-refactor-review") → later chat(message: "...", conversationId: "auth-refactor-review")',
       inputSchema: z.object({
         message: z.string().describe("The question or request to send—be clear and specific."),
         conversationId: z
           .string()
           .optional()
           .describe(
-            "ID of the conversation to continue; omit to start a new one. Use the conversationId from prior responses to keep discussing the same topic."
+            "ID or alias of the conversation to continue; omit to start a new one. Use the conversationId from prior responses to keep discussing the same topic."
+          ),
+        alias: z
+          .string()
+          .optional()
+          .describe(
+            'Optional human-readable name for the conversation (e.g. "auth-refactor-review"), usable in place of conversationId afterwards.'
           ),
         modelId: z
           .string()
@@ -38,17 +138,82 @@ export function registerTools(
           .describe(
             "Set true to have the model show its reasoning steps, useful for complex problems."
           ),
+        persona: z
+          .string()
+          .optional()
+          .describe(
+            "Name of a configured persona (see list_models) giving the model a role, e.g. a strict security reviewer. Only when starting a conversation or switching models."
+          ),
+        systemPrompt: z
+          .string()
+          .optional()
+          .describe(
+            "Custom instructions for the model, kept for the whole conversation. Only when starting a conversation or switching models; use instead of persona."
+          ),
+        attachments: attachmentsSchema,
+        temperature: z
+          .number()
+          .min(0)
+          .max(2)
+          .optional()
+          .describe("Sampling temperature for this call; 0 for the most deterministic answer."),
+        topP: z.number().min(0).max(1).optional().describe("Nucleus sampling for this call."),
+        maxTokens: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum tokens in the reply; raise it for longer answers."),
+        stop: z
+          .array(z.string().min(1))
+          .max(4)
+          .optional()
+          .describe("Sequences that end the reply when generated."),
+        seed: z
+          .number()
+          .int()
+          .optional()
+          .describe("Seed for repeatable sampling, where the provider supports it."),
+        reasoningEffort: z
+          .enum(["low", "medium", "high"])
+          .optional()
+          .describe("How much the model should think before answering, for reasoning models."),
       }),
     },
-    async ({ message, conversationId, modelId, reasoning }) => {
+    async (
+      {
+        message,
+        conversationId,
+        alias,
+        modelId,
+        reasoning,
+        persona,
+        systemPrompt,
+        attachments,
+        temperature,
+        topP,
+        maxTokens,
+        stop,
+        seed,
+        reasoningEffort,
+      },
+      extra
+    ) => {
       try {
         logger.debug("Chat tool called", {
           hasConversationId: !!conversationId,
           modelId,
         });
 
+        // A persona or system prompt is fixed when a conversation starts
+        const instructions = turnRunner.resolveInstructions(persona, systemPrompt);
+
+        // Read attachments before starting anything, so a bad path fails the call cleanly
+        const loaded = attachments?.length ? await attachmentLoader.load(attachments) : [];
+
         let actualConversationId: string;
         let actualModelId: string;
+        let createdConversation = false;
 
         // Determine conversation ID and model ID
         if (conversationId) {
@@ -66,87 +231,287 @@ export function registerTools(
 
           if (modelId && modelId !== existing.modelId) {
             // Clone conversation with new model
-            actualConversationId = conversationManager.cloneConversation(conversationId, modelId);
+            actualConversationId = conversationManager.cloneConversation(
+              existing.id,
+              modelId,
+              alias,
+              instructions
+            );
             actualModelId = modelId;
+            createdConversation = true;
           } else {
+            if (instructions) {
+              return {
+                content: [
+                  {
+                    type: "text" as const,
+                    text: "Error: persona and systemPrompt can only be set when a conversation starts or switches models",
+                  },
+                ],
+              };
+            }
+
             // Continue existing conversation
-            actualConversationId = conversationId;
+            actualConversationId = existing.id;
             actualModelId = existing.modelId;
+            if (alias) {
+              conversationManager.setAlias(actualConversationId, alias);
+            }
           }
         } else {
           // Create new conversation
           actualModelId = modelId || config.models[0].id;
-          actualConversationId = conversationManager.createConversation(actualModelId);
+          actualConversationId = conversationManager.createConversation(
+            actualModelId,
+            alias,
+            instructions
+          );
+          createdConversation = true;
+        }
+
+        let turn: TurnResult;
+        try {
+          // Stream partial output as progress notifications if the caller asked for progress
+          const progress = ProgressReporter.forRequest(extra);
+          turn = await turnRunner.run(
+            actualConversationId,
+            formatWithAttachments(message, loaded),
+            {
+              reasoning,
+              generation: { temperature, topP, maxTokens, stop, seed, reasoningEffort },
+              attachments: loaded.length ? loaded.map((a) => a.info) : undefined,
+              onProgress: progress ? (delta) => progress.report(delta) : undefined,
+              signal: extra.signal,
+            }
+          );
+          progress?.flush();
+        } catch (error) {
+          // The caller never saw the ID of a conversation created for this call
+          if (createdConversation) {
+            conversationManager.deleteConversation(actualConversationId);
+          }
+          throw error;
         }
 
-        // Validate model exists and get its full model name
-        const client = openaiClients.get(actualModelId);
-        if (!client) {
+        const conversation = conversationManager.getConversation(actualConversationId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                conversationId: actualConversationId,
+                alias: conversation?.alias,
+                persona: conversation?.persona,
+                response: turn.response.content,
+                reasoning: turn.response.reasoning,
+                modelId: actualModelId,
+                answeredBy: turn.answeredBy.label,
+                usedFallback: turn.usedFallback,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof ChatCancelledError) {
+          logger.info("Chat cancelled", { conversationId, modelId });
+        } else if (!(error instanceof BudgetExceededError)) {
+          logger.error(
+            "Chat tool error",
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: turnErrorText(error),
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Regenerate reply tool
+  server.registerTool(
+    "regenerate_reply",
+    {
+      title: "Get a New Answer to Your Last Message",
+      description:
+        "Ask the model again for its reply to the last message in a conversation, replacing the reply you got. Use it when the answer was cut off, went off track or you want another take; raise the temperature for a more different answer. If the call fails, the old reply is kept.",
+      inputSchema: z.object({
+        conversationId: z.string().describe("ID or alias of the conversation."),
+        reasoning: z
+          .boolean()
+          .optional()
+          .describe("Set true to have the model show its reasoning steps."),
+        temperature: z
+          .number()
+          .min(0)
+          .max(2)
+          .optional()
+          .describe("Sampling temperature for the new reply."),
+      }),
+    },
+    async ({ conversationId, reasoning, temperature }, extra) => {
+      try {
+        const conversation = conversationManager.getConversation(conversationId);
+        if (!conversation) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Error: Model not configured: ${actualModelId}`,
+                text: `Error: Conversation not found: ${conversationId}`,
               },
             ],
           };
         }
 
-        // Get the full model name from config for API calls
-        const modelConfig = config.models.find((m) => m.id === actualModelId);
-        if (!modelConfig) {
+        const index = conversationManager.findLastUserMessage(conversation.id);
+        if (index === null) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Error: Model configuration not found: ${actualModelId}`,
+                text: "Error: The conversation has no message to reply to",
               },
             ],
           };
         }
 
-        // Add user message to conversation
-        conversationManager.addMessage(actualConversationId, "user", message);
+        logger.debug("Regenerate reply tool called", { conversationId: conversation.id });
+
+        const text = await replaceTurn(
+          conversation.id,
+          index,
+          conversation.messages[index].content,
+          {
+            reasoning,
+            generation: { temperature },
+            attachments: conversation.messages[index].metadata?.attachments,
+          },
+          extra
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text,
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof ChatCancelledError) {
+          logger.info("Regenerate reply cancelled", { conversationId });
+        } else if (!(error instanceof BudgetExceededError)) {
+          logger.error(
+            "Regenerate reply tool error",
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
 
-        // Get conversation history
-        const history = conversationManager.getHistory(actualConversationId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: turnErrorText(error),
+            },
+          ],
+        };
+      }
+    }
+  );
 
-        // Send to OpenAI - use the full modelName for the API call
-        const response = await client.chat(modelConfig.modelName, history, {
-          reasoning,
-          provider: modelConfig.provider,
-        });
+  // Edit message tool
+  server.registerTool(
+    "edit_message",
+    {
+      title: "Fix an Earlier Message and Ask Again",
+      description:
+        "Replace one of your earlier messages in a conversation, e.g. to add context or attachments the first message was missing, and get a new reply to it. The new message replaces the old one with its attachments. Every message after the edited one is dropped, so the conversation continues from there; fork_conversation first if you want to keep the original thread. If the call fails, the conversation is left unchanged.",
+      inputSchema: z.object({
+        conversationId: z.string().describe("ID or alias of the conversation."),
+        messageIndex: z
+          .number()
+          .int()
+          .min(0)
+          .describe(
+            "Position of the user message to replace, counted from 0 as conversation_history lists them."
+          ),
+        message: z.string().describe("The new message, sent in place of the old one."),
+        attachments: attachmentsSchema,
+        reasoning: z
+          .boolean()
+          .optional()
+          .describe("Set true to have the model show its reasoning steps."),
+      }),
+    },
+    async ({ conversationId, messageIndex, message, attachments, reasoning }, extra) => {
+      try {
+        const conversation = conversationManager.getConversation(conversationId);
+        if (!conversation) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Conversation not found: ${conversationId}`,
+              },
+            ],
+          };
+        }
 
-        // Add assistant response to conversation
-        conversationManager.addMessage(actualConversationId, "assistant", response.content);
+        const target = conversation.messages[messageIndex];
+        if (target?.role !== "user") {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: target
+                  ? `Error: Message ${messageIndex} is a model reply; only user messages can be edited`
+                  : `Error: No message ${messageIndex}; the conversation has ${conversation.messages.length} messages`,
+              },
+            ],
+          };
+        }
 
-        logger.info("Chat completed", {
-          conversationId: actualConversationId,
-          modelId: actualModelId,
+        logger.debug("Edit message tool called", {
+          conversationId: conversation.id,
+          messageIndex,
+          droppedCount: conversation.messages.length - messageIndex,
         });
 
+        const loaded = attachments?.length ? await attachmentLoader.load(attachments) : [];
+        const text = await replaceTurn(
+          conversation.id,
+          messageIndex,
+          formatWithAttachments(message, loaded),
+          { reasoning, attachments: loaded.length ? loaded.map((a) => a.info) : undefined },
+          extra
+        );
         return {
           content: [
             {
               type: "text" as const,
-              text: JSON.stringify({
-                conversationId: actualConversationId,
-                response: response.content,
-                reasoning: response.reasoning,
-                modelId: actualModelId,
-              }),
+              text,
             },
           ],
         };
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error("Chat tool error", error instanceof Error ? error : new Error(errorMessage));
+        if (error instanceof ChatCancelledError) {
+          logger.info("Edit message cancelled", { conversationId });
+        } else if (!(error instanceof BudgetExceededError)) {
+          logger.error(
+            "Edit message tool error",
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
 
         return {
           content: [
             {
               type: "text" as const,
-              text: `Error: ${errorMessage}`,
+              text: turnErrorText(error),
             },
           ],
         };
@@ -154,31 +519,51 @@ export function registerTools(
     }
   );
 
-  // List models tool
+  // Delete last turn tool
   server.registerTool(
-    "list_models",
+    "delete_last_turn",
     {
-      title: "See Available Models to Talk To",
+      title: "Take Back Your Last Message",
       description:
-        "Get all the models you can chat with. Each model has different strengths and expertise. Call this first to see which model is best for your question, or to find a specific model ID to use in the chat tool.",
-      inputSchema: z.object({}),
+        "Remove your last message and the model's reply from a conversation, as if it was never sent, e.g. after asking the wrong question. Call it again to remove more turns.",
+      inputSchema: z.object({
+        conversationId: z.string().describe("ID or alias of the conversation."),
+      }),
     },
-    async () => {
+    async ({ conversationId }) => {
       try {
-        const models: ModelInfo[] = config.models.map((m) => ({
-          id: m.id,
-          modelName: m.modelName,
-          baseUrl: m.baseUrl,
-        }));
+        const conversation = conversationManager.getConversation(conversationId);
+        if (!conversation) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Conversation not found: ${conversationId}`,
+              },
+            ],
+          };
+        }
 
-        logger.debug("Listed models", { count: models.length });
+        const removed = conversationManager.removeLastTurn(conversation.id);
+        if (removed.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Error: The conversation has no turns to delete",
+              },
+            ],
+          };
+        }
 
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify({
-                models,
+                conversationId: conversation.id,
+                removed: removed.map(({ role, content }) => ({ role, content })),
+                messageCount: conversation.messages.length,
               }),
             },
           ],
@@ -186,7 +571,7 @@ export function registerTools(
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         logger.error(
-          "List models tool error",
+          "Delete last turn tool error",
           error instanceof Error ? error : new Error(errorMessage)
         );
 
@@ -202,40 +587,111 @@ export function registerTools(
     }
   );
 
-  // Conversation history tool
+  // Ask many tool
   server.registerTool(
-    "conversation_history",
+    "ask_many",
     {
-      title: "Review Your Conversation with Another Model",
+      title: "Ask Several Models at Once",
       description:
-        "See what you've already discussed with a specific model. Useful for understanding context before continuing a conversation, reviewing advice you got, or checking previous responses. Long conversations are automatically shortened to save context.",
+        "Send the same message to several models in parallel to compare their answers or get independent second opinions. Each model gets its own new conversation, returned with its answer so you can follow up with chat. Models that fail are listed under errors while the others still answer. As with chat, include all the context the models need in the message.",
       inputSchema: z.object({
-        conversationId: z
+        message: z.string().describe("The question or request to send to every model."),
+        modelIds: z
+          .array(z.string())
+          .min(1)
+          .max(10)
+          .describe("IDs of the models to ask (call list_models); each appears once."),
+        reasoning: z
+          .boolean()
+          .optional()
+          .describe("Set true to have each model show its reasoning steps."),
+        persona: z
           .string()
-          .describe(
-            "The ID of the conversation you want to review. Get this from the response of the chat tool when you first talk to a model."
-          ),
+          .optional()
+          .describe("Name of a configured persona (see list_models) for every conversation."),
+        systemPrompt: z
+          .string()
+          .optional()
+          .describe("Custom instructions for every conversation; use instead of persona."),
       }),
     },
-    async ({ conversationId }) => {
+    async ({ message, modelIds, reasoning, persona, systemPrompt }, extra) => {
       try {
-        const conversation = conversationManager.getConversationState(conversationId);
-        if (!conversation) {
+        const duplicate = modelIds.find((id, index) => modelIds.indexOf(id) !== index);
+        if (duplicate) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Error: Conversation not found: ${conversationId}`,
+                text: `Error: Duplicate modelId: ${duplicate}`,
+              },
+            ],
+          };
+        }
+        const unknown = modelIds.filter((id) => !backends.has(id));
+        if (unknown.length) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Model not configured: ${unknown.join(", ")}`,
               },
             ],
           };
         }
 
-        const history = conversationManager.getHistory(conversationId);
+        const instructions = turnRunner.resolveInstructions(persona, systemPrompt);
 
-        logger.debug("Retrieved conversation history", {
-          conversationId,
-          messageCount: history.length,
+        logger.debug("Ask many tool called", { modelIds });
+
+        const outcomes = await mapWithConcurrency(
+          modelIds,
+          config.fanOutConcurrency ?? DEFAULT_FAN_OUT_CONCURRENCY,
+          async (modelId) => {
+            const conversationId = conversationManager.createConversation(
+              modelId,
+              undefined,
+              instructions
+            );
+            try {
+              const turn = await turnRunner.run(conversationId, message, {
+                reasoning,
+                signal: extra.signal,
+              });
+              return { ok: true as const, modelId, conversationId, turn };
+            } catch (error) {
+              // Keep no conversation for a model that did not answer
+              conversationManager.deleteConversation(conversationId);
+              return { ok: false as const, modelId, error };
+            }
+          }
+        );
+
+        if (extra.signal.aborted) {
+          throw new ChatCancelledError();
+        }
+
+        const results = outcomes.flatMap((outcome) =>
+          outcome.ok
+            ? [
+                {
+                  modelId: outcome.modelId,
+                  conversationId: outcome.conversationId,
+                  response: outcome.turn.response.content,
+                  reasoning: outcome.turn.response.reasoning,
+                  answeredBy: outcome.turn.answeredBy.label,
+                  usedFallback: outcome.turn.usedFallback,
+                },
+              ]
+            : []
+        );
+        const errors = outcomes.flatMap((outcome) =>
+          outcome.ok ? [] : [{ modelId: outcome.modelId, ...describeError(outcome.error) }]
+        );
+
+        logger.info("Ask many completed", {
+          answered: results.length,
+          failed: errors.length,
         });
 
         return {
@@ -243,19 +699,22 @@ export function registerTools(
             {
               type: "text" as const,
               text: JSON.stringify({
-                conversationId,
-                modelId: conversation.modelId,
-                messages: history,
+                results,
+                errors,
               }),
             },
           ],
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error(
-          "Conversation history tool error",
-          error instanceof Error ? error : new Error(errorMessage)
-        );
+        if (error instanceof ChatCancelledError) {
+          logger.info("Ask many cancelled", { modelIds });
+        } else {
+          logger.error(
+            "Ask many tool error",
+            error instanceof Error ? error : new Error(errorMessage)
+          );
+        }
 
         return {
           content: [
@@ -268,4 +727,626 @@ export function registerTools(
       }
     }
   );
+
+  // Debate tool
+  server.registerTool(
+    "debate",
+    {
+      title: "Have Models Debate a Question",
+      description:
+        "Get a considered answer to a hard question: two or more models answer it, then see each other's answers and critique and revise their own for a number of rounds, and a judge model writes the final synthesis. Every participant and the judge keep their conversation, so you can read the debate with conversation_history or continue it with chat. Pass a conversationId to let everyone start from that conversation's context. This makes many model calls and can take a while.",
+      inputSchema: z.object({
+        question: z
+          .string()
+          .describe("The question to debate, with all the context the models need."),
+        modelIds: z
+          .array(z.string())
+          .min(2)
+          .max(5)
+          .describe("IDs of the participating models (call list_models); each appears once."),
+        judgeModelId: z
+          .string()
+          .optional()
+          .describe(
+            "ID of the model that writes the synthesis; defaults to the first participant."
+          ),
+        rounds: z
+          .number()
+          .int()
+          .min(0)
+          .max(3)
+          .optional()
+          .describe("Rounds of critique and revision after the opening answers (default: 1)."),
+        conversationId: z
+          .string()
+          .optional()
+          .describe("ID or alias of a conversation whose history everyone starts from."),
+        reasoning: z
+          .boolean()
+          .optional()
+          .describe("Set true to have the models reason, for harder questions."),
+      }),
+    },
+    async ({ question, modelIds, judgeModelId, rounds, conversationId, reasoning }, extra) => {
+      try {
+        const duplicate = modelIds.find((id, index) => modelIds.indexOf(id) !== index);
+        if (duplicate) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Duplicate modelId: ${duplicate}`,
+              },
+            ],
+          };
+        }
+        const judge = judgeModelId ?? modelIds[0];
+        const unknown = [...modelIds, judge].filter((id) => !backends.has(id));
+        if (unknown.length) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Model not configured: ${[...new Set(unknown)].join(", ")}`,
+              },
+            ],
+          };
+        }
+
+        let sourceConversationId: string | undefined;
+        if (conversationId) {
+          sourceConversationId = conversationManager.getConversation(conversationId)?.id;
+          if (!sourceConversationId) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Error: Conversation not found: ${conversationId}`,
+                },
+              ],
+            };
+          }
+        }
+
+        logger.debug("Debate tool called", { modelIds, judgeModelId: judge, rounds });
+
+        const debate = await runDebate(turnRunner, conversationManager, {
+          question,
+          modelIds,
+          judgeModelId: judge,
+          rounds: rounds ?? 1,
+          sourceConversationId,
+          reasoning,
+          concurrency: config.fanOutConcurrency ?? DEFAULT_FAN_OUT_CONCURRENCY,
+          signal: extra.signal,
+        });
+
+        logger.info("Debate completed", {
+          participants: debate.participants.length,
+          failures: debate.failures.length,
+          judged: !!debate.judge,
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                synthesis: debate.judge?.synthesis,
+                judge: debate.judge && {
+                  modelId: debate.judge.modelId,
+                  conversationId: debate.judge.conversationId,
+                },
+                judgeError: debate.judgeError && describeError(debate.judgeError),
+                participants: debate.participants,
+                errors: debate.failures.map(({ modelId, round, error }) => ({
+                  modelId,
+                  round,
+                  ...describeError(error),
+                })),
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (error instanceof ChatCancelledError) {
+          logger.info("Debate cancelled", { modelIds });
+        } else {
+          logger.error(
+            "Debate tool error",
+            error instanceof Error ? error : new Error(errorMessage)
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // List models tool
+  server.registerTool(
+    "list_models",
+    {
+      title: "See Available Models to Talk To",
+      description:
+        "Get all the models you can chat with, and the personas you can start a conversation with. Each model has different strengths and expertise. Call this first to see which model is best for your question, or to find a specific model ID to use in the chat tool.",
+      inputSchema: z.object({}),
+    },
+    async () => {
+      try {
+        const models: ModelInfo[] = await Promise.all(
+          config.models.map(async (m) => ({
+            id: m.id,
+            modelName: m.modelName,
+            baseUrl: m.baseUrl,
+            provider: m.provider,
+            serverModels: m.provider === "local" ? await listServerModels(m.id) : undefined,
+          }))
+        );
+
+        const personas = Object.entries(config.personas ?? {}).map(([name, p]) => ({
+          name,
+          description: p.description,
+        }));
+
+        logger.debug("Listed models", { count: models.length });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                models,
+                personas,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(
+          "List models tool error",
+          error instanceof Error ? error : new Error(errorMessage)
+        );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Conversation history tool
+  server.registerTool(
+    "conversation_history",
+    {
+      title: "Review Your Conversation with Another Model",
+      description:
+        "See what you've already discussed with a specific model. Useful for understanding context before continuing a conversation, reviewing advice you got, or checking previous responses. Each message shows when it was sent and, for replies, the model, token usage and latency. Long conversations are automatically shortened to save context.",
+      inputSchema: z.object({
+        conversationId: z
+          .string()
+          .describe(
+            "The ID or alias of the conversation you want to review. Get this from the response of the chat tool when you first talk to a model."
+          ),
+        includeReasoning: z
+          .boolean()
+          .optional()
+          .describe(
+            "Set true to include the reasoning the model returned with each reply; left out by default as it can be long."
+          ),
+      }),
+    },
+    async ({ conversationId, includeReasoning }) => {
+      try {
+        const conversation = conversationManager.getConversationState(conversationId);
+        if (!conversation) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Conversation not found: ${conversationId}`,
+              },
+            ],
+          };
+        }
+
+        // Provider reasoning blocks are opaque and only kept to send back to the model
+        const history = conversationManager
+          .getHistory(conversation.id)
+          .map(({ role, content, reasoning, metadata }) => ({
+            role,
+            content,
+            reasoning: includeReasoning ? reasoning : undefined,
+            metadata,
+          }));
+
+        logger.debug("Retrieved conversation history", {
+          conversationId: conversation.id,
+          messageCount: history.length,
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                conversationId: conversation.id,
+                alias: conversation.alias,
+                modelId: conversation.modelId,
+                persona: conversation.persona,
+                systemPrompt: conversation.systemPrompt,
+                forkedFrom: conversation.forkedFrom,
+                messages: history,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(
+          "Conversation history tool error",
+          error instanceof Error ? error : new Error(errorMessage)
+        );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // List conversations tool
+  server.registerTool(
+    "list_conversations",
+    {
+      title: "Find Your Earlier Conversations",
+      description:
+        "List the conversations you have open with other models, most recently active first. Shows each conversation's ID, model, message count and last activity, so you can pick up an earlier thread or find ones to clean up.",
+      inputSchema: z.object({}),
+    },
+    async () => {
+      try {
+        const conversations = conversationManager.listConversations().map((c) => ({
+          id: c.id,
+          alias: c.alias,
+          modelId: c.modelId,
+          persona: c.persona,
+          messageCount: c.messageCount,
+          forkedFrom: c.forkedFrom,
+          lastActivity: new Date(c.updatedAt).toISOString(),
+        }));
+
+        logger.debug("Listed conversations", { count: conversations.length });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                conversations,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(
+          "List conversations tool error",
+          error instanceof Error ? error : new Error(errorMessage)
+        );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Fork conversation tool
+  server.registerTool(
+    "fork_conversation",
+    {
+      title: "Branch a Conversation from an Earlier Message",
+      description:
+        "Start a new conversation from the first messageCount messages of an existing one, to go back to before a turn that went wrong and try another approach without losing the original thread. Messages are counted from the start of the conversation as conversation_history lists them, so messageCount 4 keeps the first two exchanges; it must end on one of the model's replies. The branch can talk to the same model or a different one and keeps the conversation's persona; continue it with chat using the returned conversationId.",
+      inputSchema: z.object({
+        conversationId: z.string().describe("ID or alias of the conversation to branch from."),
+        messageCount: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Number of leading messages to keep, ending on a model reply; omit to keep all of them."
+          ),
+        modelId: z
+          .string()
+          .optional()
+          .describe(
+            "ID of the model the branch talks to (call list_models); omitted = same model."
+          ),
+        alias: z.string().optional().describe("Optional human-readable name for the branch."),
+      }),
+    },
+    async ({ conversationId, messageCount, modelId, alias }) => {
+      try {
+        const source = conversationManager.getConversation(conversationId);
+        if (!source) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Conversation not found: ${conversationId}`,
+              },
+            ],
+          };
+        }
+        if (modelId && !backends.has(modelId)) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Model not configured: ${modelId}`,
+              },
+            ],
+          };
+        }
+
+        const forkId = conversationManager.forkConversation(source.id, {
+          messageCount,
+          modelId,
+          alias,
+        });
+        const fork = conversationManager.getConversation(forkId);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                conversationId: forkId,
+                alias: fork?.alias,
+                modelId: fork?.modelId,
+                messageCount: fork?.messages.length,
+                forkedFrom: fork?.forkedFrom,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(
+          "Fork conversation tool error",
+          error instanceof Error ? error : new Error(errorMessage)
+        );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Usage report tool
+  server.registerTool(
+    "usage_report",
+    {
+      title: "See Token Usage and Cost",
+      description:
+        "Report the tokens used and, for models with pricing configured, the cost in US dollars since the server started: in total, today (UTC), per model and per conversation. Pass a conversationId to see a single conversation. Requests whose provider reported no usage are estimated and counted in estimatedRequests.",
+      inputSchema: z.object({
+        conversationId: z
+          .string()
+          .optional()
+          .describe("ID or alias of a conversation to report on; omit for everything."),
+      }),
+    },
+    async ({ conversationId }) => {
+      try {
+        const report = usageTracker.report();
+        const describe = (id: string, totals: UsageTotals) => {
+          const conversation = conversationManager.getConversation(id);
+          return {
+            conversationId: id,
+            alias: conversation?.alias,
+            modelId: conversation?.modelId,
+            ...roundCost(totals),
+          };
+        };
+
+        let result: Record<string, unknown>;
+        if (conversationId) {
+          const id = conversationManager.getConversation(conversationId)?.id ?? conversationId;
+          const totals = report.conversations.get(id);
+          if (!totals) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Error: No usage recorded for conversation: ${conversationId}`,
+                },
+              ],
+            };
+          }
+          result = { conversation: describe(id, totals) };
+        } else {
+          result = {
+            total: roundCost(report.total),
+            today: roundCost(report.today),
+            models: Array.from(report.models, ([modelId, totals]) => ({
+              modelId,
+              ...roundCost(totals),
+            })),
+            conversations: Array.from(report.conversations, ([id, totals]) => describe(id, totals)),
+          };
+        }
+
+        logger.debug("Reported usage", { conversationId });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                since: new Date(report.since).toISOString(),
+                ...result,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(
+          "Usage report tool error",
+          error instanceof Error ? error : new Error(errorMessage)
+        );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Delete conversation tool
+  server.registerTool(
+    "delete_conversation",
+    {
+      title: "Delete a Conversation",
+      description:
+        "Permanently delete a conversation and its history once you no longer need it. The conversationId cannot be used afterwards.",
+      inputSchema: z.object({
+        conversationId: z.string().describe("The ID or alias of the conversation to delete."),
+      }),
+    },
+    async ({ conversationId }) => {
+      try {
+        const deleted = conversationManager.deleteConversation(conversationId);
+        if (!deleted) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: Conversation not found: ${conversationId}`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                conversationId,
+                deleted: true,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(
+          "Delete conversation tool error",
+          error instanceof Error ? error : new Error(errorMessage)
+        );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Round a cost to a millionth of a dollar for display
+ */
+function roundCost(totals: UsageTotals): UsageTotals {
+  return totals.cost === undefined
+    ? totals
+    : { ...totals, cost: Math.round(totals.cost * 1_000_000) / 1_000_000 };
+}
+
+/**
+ * Describe a failed model call for a result that carries several outcomes
+ */
+function describeError(error: unknown): Record<string, unknown> {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof BudgetExceededError) {
+    return {
+      error: message,
+      budgetExceeded: true,
+      resetsAt: error.resetsAt && new Date(error.resetsAt).toISOString(),
+    };
+  }
+  return {
+    error: message,
+    retryable: error instanceof ProviderError ? error.retryable : undefined,
+  };
+}
+
+/**
+ * Error text for a tool that talks to a single model
+ */
+function turnErrorText(error: unknown): string {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  if (error instanceof BudgetExceededError) {
+    // Structured so the agent can tell a budget stop from a failure and see when to retry
+    return JSON.stringify({
+      error: "budget_exceeded",
+      message: errorMessage,
+      scope: error.scope,
+      limit: error.limit,
+      max: error.max,
+      used: error.used,
+      resetsAt: error.resetsAt && new Date(error.resetsAt).toISOString(),
+    });
+  }
+
+  // Tell the agent whether trying again later is worthwhile
+  const hint =
+    error instanceof ProviderError && error.retryable
+      ? " (temporary provider failure after retries and fallbacks; try again later or use another model)"
+      : "";
+  return `Error: ${errorMessage}${hint}`;
 }
@@ -0,0 +1,169 @@
+import { AnthropicClient } from "./anthropic-client.js";
+import { ProviderError } from "./errors.js";
+import { GeminiClient } from "./gemini-client.js";
+import type { ChatDelta, ChatOptions, ChatResult, LLMClient } from "./llm-client.js";
+import { LocalClient } from "./local-client.js";
+import { logger } from "./logger.js";
+import { OpenAIClient } from "./openai-client.js";
+import type { ChatMessage, GenerationParams, ModelConfig, ServerConfig } from "./types.js";
+
+/**
+ * One place a model can be served from: the model itself, another configured model,
+ * or the same model on an extra endpoint
+ */
+export interface ModelBackend {
+  /** Reported to the caller as the backend that answered */
+  label: string;
+  client: LLMClient;
+  model: ModelConfig;
+}
+
+/**
+ * Create the client that speaks the model's provider wire format
+ */
+export function createLLMClient(model: ModelConfig): LLMClient {
+  const options = {
+    timeoutMs: model.timeoutMs,
+    maxRetries: model.maxRetries,
+    backoff: model.backoff,
+  };
+
+  switch (model.provider) {
+    case "anthropic":
+      return new AnthropicClient(model.apiKey, model.baseUrl, {
+        ...options,
+        maxOutputTokens: model.maxOutputTokens,
+      });
+    case "gemini":
+      return new GeminiClient(model.apiKey, model.baseUrl, {
+        ...options,
+        maxOutputTokens: model.maxOutputTokens,
+      });
+    case "local":
+      // Servers that load models on demand answer 503 while loading, so give them longer
+      return new LocalClient(model.apiKey, model.baseUrl, {
+        ...options,
+        backoff: { initialDelayMs: 5000, ...model.backoff },
+      });
+    default:
+      return new OpenAIClient(model.apiKey, model.baseUrl, options);
+  }
+}
+
+/**
+ * Build the ordered backend chain for every configured model: the model first, then its fallbacks
+ */
+export function createModelBackends(
+  config: ServerConfig,
+  clients: Map<string, LLMClient>
+): Map<string, ModelBackend[]> {
+  const backends = new Map<string, ModelBackend[]>();
+
+  for (const model of config.models) {
+    const primary = clients.get(model.id);
+    if (!primary) {
+      continue;
+    }
+
+    const chain: ModelBackend[] = [{ label: model.id, client: primary, model }];
+
+    for (const fallback of model.fallbacks ?? []) {
+      if (typeof fallback === "string") {
+        const fallbackModel = config.models.find((m) => m.id === fallback);
+        const client = clients.get(fallback);
+        if (fallbackModel && client) {
+          chain.push({ label: fallback, client, model: fallbackModel });
+        }
+        continue;
+      }
+
+      // Same model settings on another endpoint
+      const endpointModel: ModelConfig = {
+        ...model,
+        baseUrl: fallback.baseUrl,
+        apiKey: fallback.apiKey,
+        modelName: fallback.modelName ?? model.modelName,
+        provider: fallback.provider ?? model.provider,
+      };
+      chain.push({
+        label: `${model.id} (${fallback.baseUrl})`,
+        client: createLLMClient(endpointModel),
+        model: endpointModel,
+      });
+    }
+
+    backends.set(model.id, chain);
+  }
+
+  return backends;
+}
+
+/**
+ * Send a chat request to each backend in turn until one answers
+ * Moves on only for retryable provider failures, and only if no partial output was streamed yet.
+ * beforeFallback may refuse a fallback by throwing, e.g. when it is over its own budget.
+ */
+export async function chatWithFallback(
+  backends: ModelBackend[],
+  messages: ChatMessage[],
+  options: Omit<ChatOptions, "provider"> = {},
+  beforeFallback?: (backend: ModelBackend) => void
+): Promise<{ result: ChatResult; backend: ModelBackend }> {
+  let streamed = false;
+  const onProgress = options.onProgress
+    ? (delta: ChatDelta) => {
+        streamed = true;
+        options.onProgress?.(delta);
+      }
+    : undefined;
+
+  for (const [index, backend] of backends.entries()) {
+    if (index > 0) {
+      beforeFallback?.(backend);
+    }
+    try {
+      const result = await backend.client.chat(backend.model.modelName, messages, {
+        ...options,
+        provider: backend.model.provider,
+        // Per-call settings win over each backend's own defaults
+        generation: mergeGenerationParams(backend.model.generation, options.generation),
+        systemPrompt: options.systemPrompt ?? backend.model.systemPrompt,
+        reasoningConfig: backend.model.reasoning,
+        onProgress,
+      });
+      return { result, backend };
+    } catch (error) {
+      const next = backends[index + 1];
+      const canFallBack =
+        error instanceof ProviderError && error.retryable && !streamed && next !== undefined;
+      if (!canFallBack) {
+        throw error;
+      }
+
+      logger.warn("Backend failed, falling back", {
+        failed: backend.label,
+        next: next.label,
+        error: error.message,
+      });
+    }
+  }
+
+  // Unreachable with a non-empty chain; the last failure is rethrown above
+  throw new Error("No backends configured");
+}
+
+/**
+ * Overlay per-call generation settings on a model's defaults, ignoring unset values
+ */
+export function mergeGenerationParams(
+  defaults: GenerationParams | undefined,
+  overrides: GenerationParams | undefined
+): GenerationParams {
+  const merged: GenerationParams = { ...defaults };
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
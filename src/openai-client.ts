@@ -1,19 +1,47 @@
-import OpenAI from "openai";
+import OpenAI, { APIConnectionTimeoutError, APIError, APIUserAbortError } from "openai";
+import {
+  ProviderError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+  RateLimitError,
+} from "./errors.js";
+import {
+  BaseLLMClient,
+  type ChatOptions,
+  type ChatResult,
+  type ClientOptions,
+  type ResolvedReasoning,
+  parseRetryAfter,
+  resolveReasoning,
+  reusableReasoningDetails,
+} from "./llm-client.js";
 import { logger } from "./logger.js";
-import type { ChatMessage } from "./types.js";
+import type { ChatMessage, GenerationParams, ReasoningDetails, TokenUsage } from "./types.js";
 
-export interface ChatOptions {
-  reasoning?: boolean;
-  provider?: "openai" | "openrouter";
-}
+type OpenAIMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+  /** OpenRouter's structured reasoning, sent back unchanged on assistant turns */
+  reasoning_details?: Record<string, unknown>[];
+};
+
+/** Providers known to accept stream_options, which adds token usage to the last chunk */
+const STREAM_USAGE_PROVIDERS = new Set(["openai", "openrouter", "local"]);
+
+export class OpenAIClient extends BaseLLMClient {
+  protected readonly providerName = "OpenAI";
+  private client: OpenAI;
 
-export class OpenAIClient {
-  private apiKey: string;
-  private baseUrl: string;
+  constructor(apiKey: string, baseUrl = "https://api.openai.com/v1", options: ClientOptions = {}) {
+    super(options);
 
-  constructor(apiKey: string, baseUrl = "https://api.openai.com/v1") {
-    this.apiKey = apiKey;
-    this.baseUrl = baseUrl;
+    // Retries are handled by the base client so the backoff policy applies; the SDK must not retry on its own
+    this.client = new OpenAI({
+      apiKey,
+      baseURL: baseUrl,
+      timeout: this.timeoutMs,
+      maxRetries: 0,
+    });
   }
 
   /**
@@ -21,24 +49,50 @@ export class OpenAIClient {
    */
   private buildReasoningParams(
     provider: string | undefined,
-    enabled: boolean
+    reasoning: ResolvedReasoning
   ): Record<string, unknown> {
-    if (!enabled || !provider) {
+    if (!reasoning.enabled) {
       return {};
     }
 
     switch (provider) {
-      case "openai":
-        return { reasoning: { enabled: true } };
-      case "openrouter":
-        // OpenRouter reasoning support varies by model
-        // Many models don't support reasoning parameters, so return empty
-        // User should check OpenRouter docs for specific model support
-        logger.debug("Reasoning requested for OpenRouter model - not all models support this");
-        return {};
+      case "openrouter": {
+        // OpenRouter's unified reasoning object takes either a token budget or an effort level
+        const level = reasoning.maxTokens
+          ? { max_tokens: reasoning.maxTokens }
+          : reasoning.effort
+            ? { effort: reasoning.effort }
+            : { enabled: true };
+        return { reasoning: { ...level, exclude: reasoning.exclude } };
+      }
       default:
-        return {};
+        // OpenAI and compatible servers (vLLM, Ollama, ...) take an effort level; a token budget
+        // has no equivalent there
+        return reasoning.effort ? { reasoning_effort: reasoning.effort } : {};
+    }
+  }
+
+  /**
+   * Map generation settings to chat completion fields
+   */
+  private buildGenerationParams(
+    provider: string | undefined,
+    generation: GenerationParams = {}
+  ): Record<string, unknown> {
+    const params: Record<string, unknown> = {
+      temperature: generation.temperature,
+      top_p: generation.topP,
+      stop: generation.stop,
+      seed: generation.seed,
+    };
+    // OpenAI's reasoning models reject max_tokens; other compatible servers may not know the new name
+    if (provider === "openai") {
+      params.max_completion_tokens = generation.maxTokens;
+    } else {
+      params.max_tokens = generation.maxTokens;
     }
+
+    return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
   }
 
   /**
@@ -65,106 +119,238 @@ export class OpenAIClient {
   }
 
   /**
-   * Create a client instance with the stored credentials
+   * Keep a message's reasoning_details so they can be sent back, tagged with where they came from
    */
-  private getClient(): OpenAI {
-    return new OpenAI({
-      apiKey: this.apiKey,
-      baseURL: this.baseUrl,
-    });
+  private toReasoningDetails(
+    blocks: Record<string, unknown>[],
+    modelId: string,
+    options: ChatOptions
+  ): ReasoningDetails | undefined {
+    if (!blocks.length || !options.provider) {
+      return undefined;
+    }
+    return { provider: options.provider, modelName: modelId, blocks };
   }
 
   /**
-   * Send a chat message and get a response
+   * Map an SDK error to a typed provider error
    */
-  async chat(
+  protected classifyError(error: unknown, modelId: string): ProviderError {
+    if (error instanceof ProviderError) {
+      return error;
+    }
+    if (error instanceof APIConnectionTimeoutError) {
+      return new ProviderTimeoutError(modelId, this.timeoutMs);
+    }
+    if (error instanceof APIError) {
+      if (error.status === 429) {
+        return new RateLimitError(
+          modelId,
+          error.message,
+          parseRetryAfter(error.headers?.["retry-after"])
+        );
+      }
+      if (error.status === undefined || error.status >= 500) {
+        return new ProviderUnavailableError(modelId, error.message, error.status);
+      }
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new ProviderError(
+      `Failed to get response from ${this.providerName}: ${errorMessage}`,
+      modelId,
+      { status: error instanceof APIError ? error.status : undefined }
+    );
+  }
+
+  protected isAbortError(error: unknown): boolean {
+    return error instanceof APIUserAbortError;
+  }
+
+  /**
+   * Make a single completion request, streamed if the caller wants progress
+   */
+  protected async complete(
     modelId: string,
-    messages: ChatMessage[],
-    options?: ChatOptions
-  ): Promise<{ content: string; reasoning?: string }> {
-    try {
-      logger.debug("Sending chat request to OpenAI", {
+    chatMessages: ChatMessage[],
+    options: ChatOptions
+  ): Promise<ChatResult> {
+    const messages: OpenAIMessage[] = chatMessages.map((msg) => {
+      const reasoningDetails = reusableReasoningDetails(msg, modelId, options);
+      return reasoningDetails
+        ? { role: msg.role, content: msg.content, reasoning_details: reasoningDetails }
+        : { role: msg.role, content: msg.content };
+    });
+    if (options.systemPrompt) {
+      messages.unshift({ role: "system", content: options.systemPrompt });
+    }
+
+    // Build generation and provider-specific reasoning params
+    const reasoning = resolveReasoning(options);
+    const requestParams = {
+      ...this.buildGenerationParams(options.provider, options.generation),
+      ...this.buildReasoningParams(options.provider, reasoning),
+    };
+
+    if (options.onProgress) {
+      const streamed = await this.streamCompletion(modelId, messages, requestParams, options);
+      return {
+        ...streamed,
+        reasoning: reasoning.exclude ? undefined : streamed.reasoning,
+      };
+    }
+
+    const response = await this.client.chat.completions.create(
+      {
         model: modelId,
-        messageCount: messages.length,
-        reasoning: options?.reasoning,
-      });
+        messages,
+        ...requestParams,
+      },
+      { signal: options.signal }
+    );
 
-      const openaiMessages = messages.map((msg) => ({
-        role: msg.role as "user" | "assistant",
-        content: msg.content,
-      }));
+    const textContent = response.choices[0]?.message?.content;
+    if (!textContent) {
+      throw new Error("No content in response from OpenAI");
+    }
 
-      const client = this.getClient();
+    logger.debug("Received response from OpenAI", {
+      model: modelId,
+      tokens: response.usage?.total_tokens,
+    });
 
-      // Build provider-specific reasoning params
-      const reasoningParams = this.buildReasoningParams(
-        options?.provider,
-        options?.reasoning ?? false
-      );
+    // Extract reasoning if present and requested
+    const message = response.choices[0].message as unknown as Record<string, unknown>;
+    const reasoningDetails = message.reasoning_details as Record<string, unknown>[] | undefined;
+    return {
+      content: textContent,
+      reasoning: reasoning.exclude ? undefined : this.extractReasoning(message),
+      reasoningDetails: this.toReasoningDetails(reasoningDetails ?? [], modelId, options),
+      usage: response.usage ? toUsage(response.usage) : undefined,
+    };
+  }
 
-      const response = await client.chat.completions.create({
+  /**
+   * Stream a completion, reporting each chunk of content and reasoning as it arrives
+   */
+  private async streamCompletion(
+    modelId: string,
+    messages: OpenAIMessage[],
+    requestParams: Record<string, unknown>,
+    options: ChatOptions
+  ): Promise<ChatResult> {
+    const { onProgress, signal } = options;
+    const stream = await this.client.chat.completions.create(
+      {
         model: modelId,
-        messages: openaiMessages,
-        ...reasoningParams,
-      });
+        messages,
+        stream: true,
+        ...(STREAM_USAGE_PROVIDERS.has(options.provider ?? "")
+          ? { stream_options: { include_usage: true } }
+          : {}),
+        ...requestParams,
+      },
+      { signal }
+    );
+
+    let content = "";
+    let reasoning = "";
+    const reasoningDetails: Record<string, unknown>[] = [];
+    let usage: TokenUsage | undefined;
 
-      const textContent = response.choices[0]?.message?.content;
-      if (!textContent) {
-        throw new Error("No content in response from OpenAI");
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = toUsage(chunk.usage);
       }
 
-      logger.debug("Received response from OpenAI", {
-        model: modelId,
-        tokens: response.usage?.total_tokens,
-      });
-
-      // Extract reasoning if present and requested
-      let reasoning: string | undefined;
-      if (options?.reasoning) {
-        reasoning = this.extractReasoning(
-          response.choices[0].message as unknown as Record<string, unknown>
-        );
+      const delta = chunk.choices[0]?.delta as unknown as Record<string, unknown> | undefined;
+      if (!delta) {
+        continue;
       }
 
-      return {
-        content: textContent,
-        reasoning,
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error("OpenAI API error", {
-        model: modelId,
-        error: errorMessage,
-      });
+      for (const detail of (delta.reasoning_details as Record<string, unknown>[]) ?? []) {
+        appendReasoningDetail(reasoningDetails, detail);
+      }
+
+      const contentDelta = (delta.content as string | null | undefined) ?? "";
+      const reasoningDelta = this.extractReasoning(delta) ?? "";
 
-      throw new Error(`Failed to get response from OpenAI: ${errorMessage}`);
+      if (contentDelta || reasoningDelta) {
+        content += contentDelta;
+        reasoning += reasoningDelta;
+        onProgress?.({ content: contentDelta, reasoning: reasoningDelta });
+      }
     }
+
+    this.throwIfAborted(signal);
+
+    if (!content) {
+      throw new Error("No content in response from OpenAI");
+    }
+
+    logger.debug("Received streamed response from OpenAI", {
+      model: modelId,
+      contentLength: content.length,
+      reasoningLength: reasoning.length,
+    });
+
+    return {
+      content,
+      reasoning: reasoning || undefined,
+      reasoningDetails: this.toReasoningDetails(reasoningDetails, modelId, options),
+      usage,
+    };
   }
 
   /**
-   * Validate that a model is accessible
+   * List the model names the endpoint offers through /v1/models
    */
-  async validateModel(modelId: string): Promise<boolean> {
-    try {
-      logger.debug("Validating model", { model: modelId });
+  async listModels(): Promise<string[]> {
+    const names: string[] = [];
+    for await (const model of this.client.models.list()) {
+      names.push(model.id);
+    }
+    return names;
+  }
 
-      // Try a minimal request to validate the model
-      const client = this.getClient();
-      await client.chat.completions.create({
-        model: modelId,
-        messages: [{ role: "user" as const, content: "" }],
-        max_tokens: 1,
-      });
-
-      return true;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.warn("Model validation failed", {
-        model: modelId,
-        error: errorMessage,
-      });
+  protected async ping(modelId: string): Promise<void> {
+    await this.client.chat.completions.create({
+      model: modelId,
+      messages: [{ role: "user" as const, content: "" }],
+      max_tokens: 1,
+    });
+  }
+}
 
-      return false;
-    }
+/**
+ * Token counts from a completion's usage block
+ */
+function toUsage(usage: OpenAI.CompletionUsage): TokenUsage {
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+  };
+}
+
+/**
+ * Add a streamed reasoning_details entry, joining the text of pieces that share an index
+ */
+function appendReasoningDetail(
+  details: Record<string, unknown>[],
+  piece: Record<string, unknown>
+): void {
+  const last = details[details.length - 1];
+  if (!last || last.index === undefined || last.index !== piece.index || last.type !== piece.type) {
+    details.push({ ...piece });
+    return;
+  }
+
+  for (const [key, value] of Object.entries(piece)) {
+    const joinable = key === "text" || key === "summary" || key === "data";
+    last[key] =
+      joinable && typeof value === "string" && typeof last[key] === "string"
+        ? last[key] + value
+        : value;
   }
 }
@@ -0,0 +1,91 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ProgressToken,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ChatDelta } from "./llm-client.js";
+import { logger } from "./logger.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Sends streamed model output to the calling agent as MCP progress notifications
+ * Deltas are batched so a fast stream does not turn into one notification per token.
+ */
+export class ProgressReporter {
+  private extra: ToolExtra;
+  private progressToken: ProgressToken;
+  private intervalMs: number;
+  private pendingContent = "";
+  private pendingReasoning = "";
+  private received = 0;
+  private lastSentAt = 0;
+
+  constructor(extra: ToolExtra, progressToken: ProgressToken, intervalMs = 1000) {
+    this.extra = extra;
+    this.progressToken = progressToken;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Create a reporter if the caller asked for progress by sending a progress token
+   */
+  static forRequest(extra: ToolExtra): ProgressReporter | null {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return null;
+    }
+    return new ProgressReporter(extra, progressToken);
+  }
+
+  /**
+   * Queue a streamed delta, sending it if the batching interval has passed
+   */
+  report(delta: ChatDelta): void {
+    this.pendingContent += delta.content;
+    this.pendingReasoning += delta.reasoning;
+    this.received += delta.content.length + delta.reasoning.length;
+
+    if (Date.now() - this.lastSentAt >= this.intervalMs) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Send whatever is queued
+   */
+  flush(): void {
+    if (!this.pendingContent && !this.pendingReasoning) {
+      return;
+    }
+
+    const parts: string[] = [];
+    if (this.pendingReasoning) {
+      parts.push(`[reasoning] ${this.pendingReasoning}`);
+    }
+    if (this.pendingContent) {
+      parts.push(this.pendingContent);
+    }
+
+    this.pendingContent = "";
+    this.pendingReasoning = "";
+    this.lastSentAt = Date.now();
+
+    this.extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken: this.progressToken,
+          // Characters received so far; must increase with every notification
+          progress: this.received,
+          message: parts.join("\n"),
+        },
+      })
+      .catch((error) => {
+        logger.debug("Failed to send progress notification", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+}
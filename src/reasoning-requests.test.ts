@@ -0,0 +1,338 @@
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import type { ChatOptions } from "./llm-client.js";
+import { setLogLevel } from "./logger.js";
+import { createLLMClient } from "./model-backends.js";
+import type { ModelConfig, ProviderType } from "./types.js";
+
+/**
+ * Checks the reasoning fields each provider client puts in its request body, and the reasoning
+ * it streams to onProgress, against a mock server that answers in each provider's format
+ */
+
+interface RecordedRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+const requests: RecordedRequest[] = [];
+let server: http.Server;
+let baseUrl: string;
+
+/**
+ * A minimal successful reply for whichever API the path belongs to
+ */
+function replyFor(path: string): unknown {
+  if (path.endsWith("/chat/completions")) {
+    return {
+      id: "chatcmpl-1",
+      object: "chat.completion",
+      created: 0,
+      model: "mock",
+      choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    };
+  }
+  if (path.endsWith("/messages")) {
+    return {
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      content: [{ type: "text", text: "ok" }],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 1, output_tokens: 1 },
+    };
+  }
+  return {
+    candidates: [{ content: { role: "model", parts: [{ text: "ok" }] } }],
+    usageMetadata: { promptTokenCount: 1, candidatesTokenCount: 1 },
+  };
+}
+
+/**
+ * The same reply as server-sent events, with a thinking chunk ahead of the answer
+ */
+function streamFor(path: string, provider: string): unknown[] {
+  if (path.endsWith("/chat/completions")) {
+    const chunk = (delta: Record<string, unknown>) => ({
+      id: "chatcmpl-1",
+      object: "chat.completion.chunk",
+      created: 0,
+      model: "mock",
+      choices: [{ index: 0, delta, finish_reason: null }],
+    });
+    // Local servers tend to inline their reasoning in the content
+    return provider === "local"
+      ? [chunk({ content: "<think>thinking...</think>" }), chunk({ content: "ok" })]
+      : [chunk({ reasoning: "thinking..." }), chunk({ content: "ok" })];
+  }
+  if (path.endsWith("/messages")) {
+    return [
+      { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "thinking_delta", thinking: "thinking..." },
+      },
+      { type: "content_block_start", index: 1, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "ok" } },
+      { type: "message_stop" },
+    ];
+  }
+  return [
+    {
+      candidates: [{ content: { role: "model", parts: [{ text: "thinking...", thought: true }] } }],
+    },
+    { candidates: [{ content: { role: "model", parts: [{ text: "ok" }] } }] },
+  ];
+}
+
+/**
+ * Build a client for the provider that talks to the mock server
+ */
+function mockModel(provider: ProviderType, model: Partial<ModelConfig>): ModelConfig {
+  return {
+    id: provider,
+    modelName: `mock-${provider}`,
+    baseUrl,
+    apiKey: "test-key",
+    provider,
+    maxRetries: 0,
+    ...model,
+  };
+}
+
+/**
+ * Send one message through the provider's client and return the request body it sent
+ */
+async function sentBody(
+  provider: ProviderType,
+  model: Partial<ModelConfig>,
+  options: Omit<ChatOptions, "provider" | "reasoningConfig"> = {}
+): Promise<Record<string, unknown>> {
+  const config = mockModel(provider, model);
+  const count = requests.length;
+  await createLLMClient(config).chat(config.modelName, [{ role: "user", content: "hi" }], {
+    ...options,
+    provider,
+    reasoningConfig: config.reasoning,
+  });
+
+  assert.equal(requests.length, count + 1, "expected exactly one request");
+  return requests[requests.length - 1].body;
+}
+
+/**
+ * Stream one message through the provider's client and return the reasoning passed to onProgress
+ */
+async function streamedReasoning(
+  provider: ProviderType,
+  model: Partial<ModelConfig>,
+  options: Omit<ChatOptions, "provider" | "reasoningConfig" | "onProgress"> = {}
+): Promise<string> {
+  const config = mockModel(provider, model);
+  let reasoning = "";
+  await createLLMClient(config).chat(config.modelName, [{ role: "user", content: "hi" }], {
+    ...options,
+    provider,
+    reasoningConfig: config.reasoning,
+    onProgress: (delta) => {
+      reasoning += delta.reasoning;
+    },
+  });
+  return reasoning;
+}
+
+before(async () => {
+  setLogLevel("error");
+  server = http.createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+    });
+    req.on("end", () => {
+      const path = req.url ?? "";
+      const body = JSON.parse(data);
+      requests.push({ path, body });
+      if (!body.stream && !path.includes("alt=sse")) {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(replyFor(path)));
+        return;
+      }
+
+      res.writeHead(200, { "content-type": "text/event-stream" });
+      const provider = String(body.model ?? "").replace(/^mock-/, "");
+      for (const event of streamFor(path, provider)) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end(path.endsWith("/chat/completions") ? "data: [DONE]\n\n" : undefined);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("OpenRouter", () => {
+  it("sends the configured effort in the reasoning object", async () => {
+    const body = await sentBody(
+      "openrouter",
+      { reasoning: { effort: "high" } },
+      { reasoning: true }
+    );
+    assert.deepEqual(body.reasoning, { effort: "high", exclude: false });
+  });
+
+  it("sends a configured token budget instead of an effort", async () => {
+    const body = await sentBody("openrouter", { reasoning: { maxTokens: 4000 } });
+    assert.deepEqual(body.reasoning, { max_tokens: 4000, exclude: true });
+  });
+
+  it("excludes reasoning when the model config says so", async () => {
+    const body = await sentBody(
+      "openrouter",
+      { reasoning: { effort: "low", exclude: true } },
+      { reasoning: true }
+    );
+    assert.deepEqual(body.reasoning, { effort: "low", exclude: true });
+  });
+
+  it("enables reasoning without a level when only the call asks for it", async () => {
+    const body = await sentBody("openrouter", {}, { reasoning: true });
+    assert.deepEqual(body.reasoning, { enabled: true, exclude: false });
+  });
+
+  it("lets the call's effort replace the configured budget", async () => {
+    const body = await sentBody(
+      "openrouter",
+      { reasoning: { maxTokens: 4000 } },
+      { generation: { reasoningEffort: "medium" } }
+    );
+    assert.deepEqual(body.reasoning, { effort: "medium", exclude: true });
+  });
+
+  it("sends nothing when reasoning is off", async () => {
+    const body = await sentBody("openrouter", {});
+    assert.equal(body.reasoning, undefined);
+  });
+});
+
+describe("OpenAI", () => {
+  it("sends reasoning_effort and max_completion_tokens", async () => {
+    const body = await sentBody(
+      "openai",
+      { reasoning: { effort: "medium" } },
+      { generation: { maxTokens: 3000 } }
+    );
+    assert.equal(body.reasoning_effort, "medium");
+    assert.equal(body.max_completion_tokens, 3000);
+    assert.equal(body.max_tokens, undefined);
+    assert.equal(body.reasoning, undefined);
+  });
+
+  it("has no equivalent for a token budget", async () => {
+    const body = await sentBody("openai", { reasoning: { maxTokens: 4000 } });
+    assert.equal(body.reasoning_effort, undefined);
+    assert.equal(body.reasoning, undefined);
+  });
+});
+
+describe("Anthropic", () => {
+  it("turns the effort into a thinking budget", async () => {
+    const body = await sentBody(
+      "anthropic",
+      { reasoning: { effort: "low" }, maxOutputTokens: 16000 },
+      { reasoning: true }
+    );
+    assert.deepEqual(body.thinking, { type: "enabled", budget_tokens: 2048 });
+    assert.equal(body.max_tokens, 16000);
+  });
+
+  it("sends a configured budget as budget_tokens", async () => {
+    const body = await sentBody("anthropic", {
+      reasoning: { maxTokens: 5000 },
+      maxOutputTokens: 16000,
+    });
+    assert.deepEqual(body.thinking, { type: "enabled", budget_tokens: 5000 });
+  });
+
+  it("cuts the budget down to fit under max_tokens instead of raising it", async () => {
+    const body = await sentBody(
+      "anthropic",
+      { reasoning: { effort: "high" } },
+      { generation: { maxTokens: 3000 } }
+    );
+    assert.equal(body.max_tokens, 3000);
+    assert.deepEqual(body.thinking, { type: "enabled", budget_tokens: 1976 });
+  });
+
+  it("refuses a max_tokens too small to think in", async () => {
+    await assert.rejects(
+      sentBody("anthropic", { reasoning: { effort: "high" } }, { generation: { maxTokens: 2000 } }),
+      /too small for extended thinking/
+    );
+  });
+
+  it("drops temperature while thinking", async () => {
+    const body = await sentBody(
+      "anthropic",
+      { reasoning: { effort: "low" } },
+      { generation: { temperature: 0.5 } }
+    );
+    assert.equal(body.temperature, undefined);
+  });
+});
+
+describe("Gemini", () => {
+  it("turns the effort into a thinking budget", async () => {
+    const body = await sentBody("gemini", { reasoning: { effort: "medium" } }, { reasoning: true });
+    const config = body.generationConfig as Record<string, unknown>;
+    assert.deepEqual(config.thinkingConfig, { includeThoughts: true, thinkingBudget: 8192 });
+  });
+
+  it("asks for no thoughts when reasoning is excluded", async () => {
+    const body = await sentBody("gemini", { reasoning: { maxTokens: 1500, exclude: true } });
+    const config = body.generationConfig as Record<string, unknown>;
+    assert.deepEqual(config.thinkingConfig, { includeThoughts: false, thinkingBudget: 1500 });
+  });
+
+  it("leaves the budget to the model when only the call asks for reasoning", async () => {
+    const body = await sentBody("gemini", {}, { reasoning: true });
+    const config = body.generationConfig as Record<string, unknown>;
+    assert.deepEqual(config.thinkingConfig, { includeThoughts: true });
+  });
+});
+
+describe("Streamed reasoning", () => {
+  const providers: ProviderType[] = ["openrouter", "local", "anthropic", "gemini"];
+
+  for (const provider of providers) {
+    it(`reaches onProgress from ${provider} when the call asks for it`, async () => {
+      const reasoning = await streamedReasoning(
+        provider,
+        { reasoning: { effort: "low" } },
+        { reasoning: true }
+      );
+      assert.equal(reasoning, "thinking...");
+    });
+
+    it(`is kept from onProgress by ${provider} when the call does not ask for it`, async () => {
+      const reasoning = await streamedReasoning(provider, { reasoning: { effort: "low" } });
+      assert.equal(reasoning, "");
+    });
+
+    it(`is kept from onProgress by ${provider} when the model config excludes it`, async () => {
+      const reasoning = await streamedReasoning(
+        provider,
+        { reasoning: { effort: "low", exclude: true } },
+        { reasoning: true }
+      );
+      assert.equal(reasoning, "");
+    });
+  }
+});
@@ -0,0 +1,197 @@
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  ErrorCode,
+  type JSONRPCMessage,
+  type RequestId,
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ServerLauncher } from "./launcher.js";
+
+/**
+ * Relays MCP messages between the agent's stdio and the shared HTTP server's /mcp endpoint,
+ * so every agent session on the machine talks to the same conversation store
+ */
+export class StdioProxy {
+  private stdioTransport: StdioServerTransport;
+  private httpTransport: StreamableHTTPClientTransport;
+  private closed = false;
+  // One abort controller per in-flight request, so a single request can be cancelled
+  private inFlight: Map<RequestId, AbortController> = new Map();
+  private cancelled: Set<RequestId> = new Set();
+  private launcher?: ServerLauncher;
+  // Shared by messages that fail together, so the server is started only once
+  private restarting: Promise<void> | null = null;
+
+  /**
+   * Called when either side of the proxy closes
+   */
+  onclose?: () => void;
+
+  /**
+   * Called when a message could not be relayed
+   */
+  onerror?: (error: Error) => void;
+
+  /**
+   * With a launcher, the server is started again if it stopped, e.g. after polybrain --restart
+   */
+  constructor(port: number, launcher?: ServerLauncher) {
+    this.launcher = launcher;
+    this.stdioTransport = new StdioServerTransport();
+    this.httpTransport = new StreamableHTTPClientTransport(
+      new URL(`http://localhost:${port}/mcp`),
+      { fetch: (url, init) => this.fetchWithCancel(url, init) }
+    );
+  }
+
+  /**
+   * Start relaying messages in both directions
+   */
+  async start(): Promise<void> {
+    this.stdioTransport.onmessage = (message) => {
+      this.forwardToServer(message);
+    };
+
+    this.httpTransport.onmessage = (message) => {
+      if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        this.inFlight.delete(message.id);
+      }
+      this.stdioTransport.send(message).catch((error) => {
+        this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      });
+    };
+
+    this.stdioTransport.onclose = () => {
+      void this.close();
+    };
+    this.httpTransport.onclose = () => {
+      void this.close();
+    };
+
+    this.stdioTransport.onerror = (error) => this.onerror?.(error);
+    this.httpTransport.onerror = (error) => this.onerror?.(error);
+
+    await this.httpTransport.start();
+    await this.stdioTransport.start();
+  }
+
+  /**
+   * Close both transports
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    await Promise.allSettled([this.httpTransport.close(), this.stdioTransport.close()]);
+    this.onclose?.();
+  }
+
+  /**
+   * Send an agent message to the HTTP server.
+   * If the server cannot be reached even after starting it again, answer requests with
+   * a JSON-RPC error so the agent does not wait forever for a response.
+   */
+  private forwardToServer(message: JSONRPCMessage): void {
+    // The stateless server cannot route a cancellation to another HTTP request,
+    // so cancel by closing that request's connection instead
+    if (isJSONRPCNotification(message) && message.method === "notifications/cancelled") {
+      const requestId = message.params?.requestId as RequestId | undefined;
+      const controller = requestId !== undefined ? this.inFlight.get(requestId) : undefined;
+      if (requestId !== undefined && controller) {
+        this.cancelled.add(requestId);
+        this.inFlight.delete(requestId);
+        controller.abort();
+      }
+      return;
+    }
+
+    this.sendToServer(message).catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (isJSONRPCRequest(message)) {
+        this.inFlight.delete(message.id);
+        // The agent already gave up on cancelled requests and expects no response
+        if (this.cancelled.delete(message.id)) {
+          return;
+        }
+
+        this.stdioTransport
+          .send({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: {
+              code: ErrorCode.InternalError,
+              message: `Failed to reach Polybrain HTTP server: ${errorMessage}`,
+            },
+          })
+          .catch(() => {
+            // stdio is gone, nothing left to notify
+          });
+      }
+    });
+  }
+
+  /**
+   * Send a message, starting the server and sending once more if it refused the connection
+   * Only a refused connection is retried: the server never saw the message, so resending
+   * cannot run a request twice.
+   */
+  private async sendToServer(message: JSONRPCMessage): Promise<void> {
+    try {
+      await this.httpTransport.send(message);
+    } catch (error) {
+      if (!this.launcher || !isConnectionRefused(error)) {
+        throw error;
+      }
+
+      const launcher = this.launcher;
+      this.restarting ??= launcher.ensureServerRunning().finally(() => {
+        this.restarting = null;
+      });
+      await this.restarting;
+      await this.httpTransport.send(message);
+    }
+  }
+
+  /**
+   * Fetch that can be aborted for one request without affecting the others
+   */
+  private fetchWithCancel(url: string | URL, init?: RequestInit): Promise<Response> {
+    const requestId = this.getRequestId(init?.body);
+    if (requestId === undefined) {
+      return fetch(url, init);
+    }
+
+    const controller = new AbortController();
+    init?.signal?.addEventListener("abort", () => controller.abort());
+    this.inFlight.set(requestId, controller);
+
+    return fetch(url, { ...init, signal: controller.signal });
+  }
+
+  private getRequestId(body: RequestInit["body"]): RequestId | undefined {
+    if (typeof body !== "string") {
+      return undefined;
+    }
+    try {
+      const message = JSON.parse(body) as unknown;
+      return isJSONRPCRequest(message) ? message.id : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Whether a fetch failed because nothing was listening on the port
+ */
+function isConnectionRefused(error: unknown): boolean {
+  const cause = error instanceof Error ? (error.cause as { code?: string } | undefined) : undefined;
+  return cause?.code === "ECONNREFUSED";
+}
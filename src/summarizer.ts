@@ -0,0 +1,62 @@
+import type { LLMClient } from "./llm-client.js";
+import { logger } from "./logger.js";
+import type { ChatMessage, ModelConfig } from "./types.js";
+import { type UsageTracker, estimateUsage } from "./usage-tracker.js";
+
+const SUMMARY_INSTRUCTIONS =
+  "Summarize the following conversation between a user and an assistant so it can replace the original messages as context for continuing the conversation. Keep every decision, conclusion, open question, constraint, and any code identifiers, file names or numbers that were discussed. Write in plain prose, without preamble.";
+
+/**
+ * Condenses older conversation turns into a summary using a configured (usually cheap) model
+ */
+export class ConversationSummarizer {
+  private client: LLMClient;
+  private model: ModelConfig;
+  private usageTracker?: UsageTracker;
+
+  constructor(client: LLMClient, model: ModelConfig, usageTracker?: UsageTracker) {
+    this.client = client;
+    this.model = model;
+    this.usageTracker = usageTracker;
+  }
+
+  /**
+   * Summarize messages, folding in the summary of the turns before them if there is one
+   */
+  async summarize(
+    messages: ChatMessage[],
+    previousSummary?: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const transcript = messages
+      .map((msg) => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`)
+      .join("\n\n");
+
+    const earlier = previousSummary
+      ? `Summary of the conversation before these messages:\n${previousSummary}\n\n`
+      : "";
+
+    logger.debug("Summarizing conversation turns", {
+      modelId: this.model.id,
+      messageCount: messages.length,
+      hasPreviousSummary: !!previousSummary,
+    });
+
+    const prompt: ChatMessage[] = [
+      {
+        role: "user",
+        content: `${SUMMARY_INSTRUCTIONS}\n\n${earlier}Conversation:\n${transcript}`,
+      },
+    ];
+    const response = await this.client.chat(this.model.modelName, prompt, {
+      provider: this.model.provider,
+      signal,
+    });
+    this.usageTracker?.record(
+      this.model,
+      response.usage ?? estimateUsage(prompt, undefined, response)
+    );
+
+    return response.content.trim();
+  }
+}
@@ -0,0 +1,88 @@
+import type { ChatDelta } from "./llm-client.js";
+
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+/**
+ * Separates inline <think>...</think> blocks, as emitted by many local reasoning models,
+ * from the answer text. Works on streamed chunks: a tag split across chunks is held back
+ * until the next chunk shows whether it really is a tag.
+ */
+export class ThinkTagSplitter {
+  private inThink = false;
+  private pending = "";
+
+  /**
+   * Split the next chunk of raw content into answer text and reasoning
+   */
+  push(text: string): ChatDelta {
+    let buffer = this.pending + text;
+    this.pending = "";
+    let content = "";
+    let reasoning = "";
+
+    while (buffer) {
+      const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+      const index = buffer.indexOf(tag);
+
+      if (index !== -1) {
+        if (this.inThink) {
+          reasoning += buffer.slice(0, index);
+        } else {
+          content += buffer.slice(0, index);
+        }
+        buffer = buffer.slice(index + tag.length);
+        this.inThink = !this.inThink;
+        continue;
+      }
+
+      // Hold back a trailing partial tag, e.g. "<thi", until more text arrives
+      const keep = partialTagLength(buffer, tag);
+      const emit = buffer.slice(0, buffer.length - keep);
+      this.pending = buffer.slice(buffer.length - keep);
+      if (this.inThink) {
+        reasoning += emit;
+      } else {
+        content += emit;
+      }
+      break;
+    }
+
+    return { content, reasoning };
+  }
+
+  /**
+   * Release text held back at the end of the stream
+   */
+  flush(): ChatDelta {
+    const rest = this.pending;
+    this.pending = "";
+    return this.inThink ? { content: "", reasoning: rest } : { content: rest, reasoning: "" };
+  }
+}
+
+/**
+ * Split a complete response into answer text and the contents of its <think> blocks
+ */
+export function splitThinkTags(text: string): { content: string; reasoning?: string } {
+  const splitter = new ThinkTagSplitter();
+  const body = splitter.push(text);
+  const rest = splitter.flush();
+  const reasoning = (body.reasoning + rest.reasoning).trim();
+  return {
+    content: (body.content + rest.content).trim(),
+    reasoning: reasoning || undefined,
+  };
+}
+
+/**
+ * Length of the longest suffix of text that is a prefix of tag
+ */
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
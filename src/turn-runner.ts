@@ -0,0 +1,175 @@
+import type { BudgetGuard } from "./budget-guard.js";
+import { estimateTokens, getPromptBudget } from "./context-window.js";
+import type { ConversationInstructions, ConversationManager } from "./conversation-manager.js";
+import type { ChatDelta, ChatResult } from "./llm-client.js";
+import { logger } from "./logger.js";
+import { type ModelBackend, chatWithFallback } from "./model-backends.js";
+import type { AttachmentInfo, GenerationParams, ServerConfig } from "./types.js";
+import { type UsageTracker, estimateUsage } from "./usage-tracker.js";
+
+export interface TurnOptions {
+  reasoning?: boolean;
+  /** Per-call overrides of the model's generation defaults */
+  generation?: GenerationParams;
+  onProgress?: (delta: ChatDelta) => void;
+  signal?: AbortSignal;
+  /** Replace the stored messages from this index on with the new turn, once the model answers */
+  replaceFrom?: number;
+  /** Recorded with the user message; their content must already be part of it */
+  attachments?: AttachmentInfo[];
+}
+
+export interface TurnResult {
+  response: ChatResult;
+  answeredBy: ModelBackend;
+  usedFallback: boolean;
+}
+
+/**
+ * Sends a user message in an existing conversation and stores the reply
+ * Shared by every tool that talks to a model, so budgets, history trimming, fallbacks
+ * and usage accounting work the same way everywhere.
+ */
+export class TurnRunner {
+  private conversationManager: ConversationManager;
+  private backends: Map<string, ModelBackend[]>;
+  private config: ServerConfig;
+  private usageTracker: UsageTracker;
+  private budgetGuard: BudgetGuard;
+
+  constructor(
+    conversationManager: ConversationManager,
+    backends: Map<string, ModelBackend[]>,
+    config: ServerConfig,
+    accounting: { usageTracker: UsageTracker; budgetGuard: BudgetGuard }
+  ) {
+    this.conversationManager = conversationManager;
+    this.backends = backends;
+    this.config = config;
+    this.usageTracker = accounting.usageTracker;
+    this.budgetGuard = accounting.budgetGuard;
+  }
+
+  /**
+   * Get the system prompt for a persona name or custom prompt, as the chat tools accept them
+   */
+  resolveInstructions(
+    persona: string | undefined,
+    systemPrompt: string | undefined
+  ): ConversationInstructions | undefined {
+    if (persona && systemPrompt) {
+      throw new Error("Pass either persona or systemPrompt, not both");
+    }
+    if (persona) {
+      const personaConfig = this.config.personas?.[persona];
+      if (!personaConfig) {
+        const available = Object.keys(this.config.personas ?? {}).join(", ") || "none configured";
+        throw new Error(`Unknown persona: ${persona} (available: ${available})`);
+      }
+      return { systemPrompt: personaConfig.systemPrompt, persona };
+    }
+    return systemPrompt ? { systemPrompt } : undefined;
+  }
+
+  /**
+   * Send a message to the conversation's model and store the turn once it answers
+   * Nothing is stored if the call fails or is refused by a budget.
+   */
+  async run(
+    conversationId: string,
+    message: string,
+    options: TurnOptions = {}
+  ): Promise<TurnResult> {
+    const conversation = this.conversationManager.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    // Validate model exists and get the backends that can serve it
+    const modelBackends = this.backends.get(conversation.modelId);
+    const modelConfig = this.config.models.find((m) => m.id === conversation.modelId);
+    if (!modelBackends || !modelConfig) {
+      throw new Error(`Model not configured: ${conversation.modelId}`);
+    }
+
+    // Without its own system prompt, the conversation uses each backend model's default
+    const conversationPrompt = conversation.systemPrompt;
+    const effectivePrompt = conversationPrompt ?? modelConfig.systemPrompt;
+
+    // The system prompt takes its share of the prompt budget
+    const budget = getPromptBudget(modelConfig);
+    const historyBudget =
+      budget !== null && effectivePrompt
+        ? budget - estimateTokens({ content: effectivePrompt })
+        : budget;
+
+    // Refuse before any model is called, including the summarizer
+    this.budgetGuard.admit(modelConfig, conversation.id);
+
+    // Keep the conversation from being evicted until the turn is stored
+    const endTurn = this.conversationManager.beginTurn(conversation.id);
+    try {
+      // Get conversation history ending with the new message, trimmed to what the model can take
+      // The message is only stored once the model has answered
+      const sentAt = Date.now();
+      const history = await this.conversationManager.getPromptHistory(
+        conversation.id,
+        historyBudget,
+        message,
+        options.replaceFrom,
+        options.signal
+      );
+
+      // Send to the model, falling back to its configured alternatives if it is unavailable
+      const { result: response, backend: answeredBy } = await chatWithFallback(
+        modelBackends,
+        history,
+        {
+          reasoning: options.reasoning,
+          generation: options.generation,
+          systemPrompt: conversationPrompt,
+          onProgress: options.onProgress,
+          signal: options.signal,
+        },
+        // A fallback model is held to its own budget as well
+        (fallback) => this.budgetGuard.admitFallback(fallback.model)
+      );
+
+      // Count what the call cost, estimating it if the provider did not say
+      const usage =
+        response.usage ??
+        estimateUsage(history, conversationPrompt ?? answeredBy.model.systemPrompt, response);
+      this.usageTracker.record(answeredBy.model, usage, conversation.id);
+
+      // Store the user message and the reply together
+      const receivedAt = Date.now();
+      this.conversationManager.appendTurn(
+        conversation.id,
+        { content: message, metadata: { timestamp: sentAt, attachments: options.attachments } },
+        {
+          content: response.content,
+          reasoning: response.reasoning,
+          reasoningDetails: response.reasoningDetails,
+          metadata: {
+            timestamp: receivedAt,
+            modelId: conversation.modelId,
+            answeredBy: answeredBy.label,
+            usage,
+            latencyMs: receivedAt - sentAt,
+          },
+        },
+        options.replaceFrom
+      );
+
+      logger.info("Chat completed", {
+        conversationId: conversation.id,
+        modelId: conversation.modelId,
+        answeredBy: answeredBy.label,
+      });
+
+      return { response, answeredBy, usedFallback: answeredBy !== modelBackends[0] };
+    } finally {
+      endTurn();
+    }
+  }
+}
@@ -1,4 +1,10 @@
-export type ProviderType = "openai" | "openrouter";
+export type ProviderType = "openai" | "openrouter" | "anthropic" | "gemini" | "local";
+
+export interface BackoffPolicy {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+}
 
 export interface ModelConfig {
   id: string;
@@ -6,26 +12,250 @@ export interface ModelConfig {
   baseUrl: string;
   apiKey: string;
   provider?: ProviderType;
+  /** Total tokens the model accepts (prompt + reply); enables token-based history trimming */
+  contextWindow?: number;
+  /** Tokens reserved for the reply when trimming history */
+  maxOutputTokens?: number;
+  /** Per-attempt request timeout */
+  timeoutMs?: number;
+  /** Retries for rate limits, 5xx, timeouts and connection errors */
+  maxRetries?: number;
+  backoff?: BackoffPolicy;
+  /** Tried in order when this model fails with a retryable error */
+  fallbacks?: ModelFallback[];
+  /** Defaults for every request to this model; the chat tool can override them per call */
+  generation?: GenerationParams;
+  /** Sent before the conversation unless it was started with its own persona or system prompt */
+  systemPrompt?: string;
+  reasoning?: ReasoningConfig;
+  /** Enables cost figures in usage reports */
+  pricing?: ModelPricing;
+  /** Limits for this model alone, on top of the server-wide ones */
+  budget?: BudgetLimits;
+}
+
+/**
+ * Price of a model in US dollars per million tokens; reasoning tokens are billed as output
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+/**
+ * How much a reasoning model should think, translated into each provider's own fields
+ */
+export interface ReasoningConfig {
+  effort?: ReasoningEffort;
+  /** Token budget for reasoning, where the provider takes one instead of an effort level */
+  maxTokens?: number;
+  /** Let the model reason but never return its reasoning */
+  exclude?: boolean;
+}
+
+/**
+ * Spending and rate limits; daily limits reset at midnight UTC
+ * Tokens count input and output together, and cost only counts models with pricing.
+ */
+export interface BudgetLimits {
+  maxTokensPerDay?: number;
+  maxCostPerDay?: number;
+  maxRequestsPerMinute?: number;
+}
+
+/**
+ * Server-wide limits across all models, plus limits applied to each conversation
+ */
+export interface BudgetConfig extends BudgetLimits {
+  perConversation?: {
+    maxTokens?: number;
+    maxCost?: number;
+  };
+}
+
+/**
+ * Sampling and length settings sent with a request; providers ignore the ones they lack
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  /** Maximum tokens in the reply */
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+  reasoningEffort?: ReasoningEffort;
+}
+
+/**
+ * The same model served from another endpoint
+ */
+export interface FallbackEndpoint {
+  baseUrl: string;
+  apiKey: string;
+  /** Defaults to the primary model's modelName */
+  modelName?: string;
+  provider?: ProviderType;
 }
 
+/**
+ * Either the id of another configured model or an extra endpoint for this one
+ */
+export type ModelFallback = string | FallbackEndpoint;
+
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
+export type StorageType = "memory" | "file";
+
+export interface StorageConfig {
+  type: StorageType;
+  path?: string;
+}
+
+export type ContextStrategyName = "sliding-window" | "head-tail" | "drop-middle";
+
+export type ConversationIdFormat = "hex" | "readable" | "uuid";
+
+export interface SummarizationConfig {
+  modelId: string;
+  keepRecentMessages: number;
+}
+
+export type HttpResponseMode = "sse" | "json";
+
+/**
+ * A reusable system prompt that a conversation can be started with by name
+ */
+export interface PersonaConfig {
+  systemPrompt: string;
+  /** Shown to the agent so it can pick a persona */
+  description?: string;
+}
+
+/**
+ * Where the chat tool may read attached files from, and how much it may attach
+ */
+export interface AttachmentConfig {
+  /** Directories files may be attached from; without any, only snippets can be attached */
+  allowedRoots: string[];
+  /** Largest file, or line range of a file, in bytes */
+  maxFileBytes?: number;
+  /** Largest total of all attachments to one message, in bytes */
+  maxTotalBytes?: number;
+}
+
 export interface ServerConfig {
   models: ModelConfig[];
   truncateLimit?: number;
+  contextStrategy?: ContextStrategyName;
+  conversationTtlMinutes?: number;
+  maxConversations?: number;
+  /** Model calls a fan-out tool such as ask_many runs at once */
+  fanOutConcurrency?: number;
+  conversationIdFormat?: ConversationIdFormat;
+  conversationIdLength?: number;
   httpPort: number;
+  httpResponseMode?: HttpResponseMode;
   logLevel: LogLevel;
+  storage?: StorageConfig;
+  summarization?: SummarizationConfig;
+  personas?: Record<string, PersonaConfig>;
+  budgets?: BudgetConfig;
+  attachments?: AttachmentConfig;
 }
 
 export interface ChatMessage {
   role: "user" | "assistant";
   content: string;
+  /** The model's reasoning for an assistant reply, when it was returned */
+  reasoning?: string;
+  reasoningDetails?: ReasoningDetails;
+  metadata?: MessageMetadata;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  /** Includes reasoning tokens */
+  outputTokens: number;
+  reasoningTokens?: number;
+  /** Counted from the text because the provider reported no usage */
+  estimated?: boolean;
+}
+
+/**
+ * Opaque reasoning blocks (e.g. signed thinking) a provider accepts back on later turns
+ * Only valid for the provider and model that produced them.
+ */
+export interface ReasoningDetails {
+  provider: ProviderType;
+  modelName: string;
+  blocks: Record<string, unknown>[];
+}
+
+export interface MessageMetadata {
+  /** When the message was sent or the reply received */
+  timestamp: number;
+  /** Configured model the conversation was talking to */
+  modelId?: string;
+  /** Backend that produced the reply, which differs from modelId after a fallback */
+  answeredBy?: string;
+  usage?: TokenUsage;
+  latencyMs?: number;
+  /** Files and snippets included in a user message */
+  attachments?: AttachmentInfo[];
+}
+
+/**
+ * What was attached to a user message; the attached text itself is part of the message
+ */
+export interface AttachmentInfo {
+  /** Resolved path of an attached file; unset for snippets */
+  path?: string;
+  /** Lines included, counted from 1; unset when the whole file was attached */
+  startLine?: number;
+  endLine?: number;
+  language?: string;
+  bytes: number;
+}
+
+export interface HistorySummary {
+  content: string;
+  /** Number of leading messages the summary replaces */
+  messageCount: number;
+}
+
+/**
+ * Where a conversation was branched off another one
+ */
+export interface ForkOrigin {
+  conversationId: string;
+  /** Number of leading messages copied from the parent */
+  messageCount: number;
 }
 
 export interface ConversationState {
   id: string;
+  alias?: string;
   modelId: string;
+  /** Fixed when the conversation starts; overrides the model's own system prompt */
+  systemPrompt?: string;
+  /** Name of the persona the system prompt came from, if any */
+  persona?: string;
   messages: ChatMessage[];
+  summary?: HistorySummary;
+  forkedFrom?: ForkOrigin;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversationSummary {
+  id: string;
+  alias?: string;
+  modelId: string;
+  persona?: string;
+  messageCount: number;
+  forkedFrom?: ForkOrigin;
   createdAt: number;
   updatedAt: number;
 }
@@ -33,12 +263,14 @@ export interface ConversationState {
 export interface ChatRequest {
   message: string;
   conversationId?: string;
+  alias?: string;
   modelId?: string;
   reasoning?: boolean;
 }
 
 export interface ChatResponse {
   conversationId: string;
+  alias?: string;
   response: string;
   reasoning?: string;
   modelId: string;
@@ -54,4 +286,7 @@ export interface ModelInfo {
   id: string;
   modelName: string;
   baseUrl: string;
+  provider?: ProviderType;
+  /** Models a local server offers, as reported by its /v1/models endpoint */
+  serverModels?: string[];
 }
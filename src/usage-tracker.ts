@@ -0,0 +1,245 @@
+import { estimateTokens } from "./context-window.js";
+import type { ChatResult } from "./llm-client.js";
+import { logger } from "./logger.js";
+import type {
+  ChatMessage,
+  ConversationState,
+  ModelConfig,
+  ModelPricing,
+  TokenUsage,
+} from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  /** Requests whose usage was estimated from the text */
+  estimatedRequests: number;
+  /** US dollars, for requests to models with pricing configured */
+  cost?: number;
+}
+
+export interface UsageReport {
+  since: number;
+  total: UsageTotals;
+  /** Since midnight UTC */
+  today: UsageTotals;
+  models: Map<string, UsageTotals>;
+  conversations: Map<string, UsageTotals>;
+}
+
+/**
+ * Sums up token usage and cost per model and per conversation since the server started
+ * Totals outlive the conversations they came from, so deleting a conversation keeps its cost.
+ */
+export class UsageTracker {
+  private since = Date.now();
+  private total = emptyTotals();
+  private models = new Map<string, UsageTotals>();
+  private conversations = new Map<string, UsageTotals>();
+  private day = utcDay(Date.now());
+  private todayTotal = emptyTotals();
+  private todayModels = new Map<string, UsageTotals>();
+  /**
+   * Usage counted towards a conversation's budget but not recorded for it since the server
+   * started: what its fork source had spent, or what it spent before a restart
+   */
+  private carriedOver = new Map<string, UsageTotals>();
+
+  /**
+   * Record one request answered by the given model
+   */
+  record(model: ModelConfig, usage: TokenUsage, conversationId?: string): void {
+    const cost = model.pricing ? calculateCost(model.pricing, usage) : undefined;
+
+    this.rollOver();
+    add(this.total, usage, cost);
+    add(this.todayTotal, usage, cost);
+    add(getOrCreate(this.models, model.id), usage, cost);
+    add(getOrCreate(this.todayModels, model.id), usage, cost);
+    if (conversationId) {
+      add(getOrCreate(this.conversations, conversationId), usage, cost);
+    }
+
+    logger.debug("Recorded token usage", {
+      modelId: model.id,
+      conversationId,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      estimated: usage.estimated,
+      cost,
+    });
+  }
+
+  /**
+   * Totals since midnight UTC, for all models or the given one
+   */
+  getToday(modelId?: string): UsageTotals {
+    this.rollOver();
+    const totals = modelId === undefined ? this.todayTotal : this.todayModels.get(modelId);
+    return { ...(totals ?? emptyTotals()) };
+  }
+
+  /**
+   * Totals for a conversation since the server started
+   */
+  getConversation(conversationId: string): UsageTotals {
+    return { ...(this.conversations.get(conversationId) ?? emptyTotals()) };
+  }
+
+  /**
+   * Everything counted towards a conversation's budget, including usage carried over
+   */
+  getConversationSpend(conversationId: string): UsageTotals {
+    const totals = this.getConversation(conversationId);
+    const carried = this.carriedOver.get(conversationId);
+    if (carried) {
+      addTotals(totals, carried);
+    }
+    return totals;
+  }
+
+  /**
+   * Count what a conversation has spent towards the budget of a fork or clone of it,
+   * so branching off does not start a fresh budget
+   */
+  carryOver(conversationId: string, sourceConversationId: string): void {
+    this.carriedOver.set(conversationId, this.getConversationSpend(sourceConversationId));
+  }
+
+  /**
+   * Count the usage stored with a conversation's replies towards its budget, after a restart
+   * Costs are priced with the current config of the model that answered.
+   */
+  restoreConversation(conversation: ConversationState, models: ModelConfig[]): void {
+    const totals = emptyTotals();
+    for (const message of conversation.messages) {
+      const usage = message.metadata?.usage;
+      if (message.role !== "assistant" || !usage) {
+        continue;
+      }
+      // Fallbacks on another endpoint of the same model are labelled "<id> (<baseUrl>)"
+      const model =
+        models.find((m) => m.id === message.metadata?.answeredBy) ??
+        models.find((m) => m.id === (message.metadata?.modelId ?? conversation.modelId));
+      add(totals, usage, model?.pricing ? calculateCost(model.pricing, usage) : undefined);
+    }
+    if (totals.requests > 0) {
+      this.carriedOver.set(conversation.id, totals);
+    }
+  }
+
+  /**
+   * Current totals; the maps are copies the caller may filter
+   */
+  report(): UsageReport {
+    this.rollOver();
+    return {
+      since: this.since,
+      total: { ...this.total },
+      today: { ...this.todayTotal },
+      models: new Map(this.models),
+      conversations: new Map(this.conversations),
+    };
+  }
+
+  /**
+   * Start new daily totals once the UTC day changes
+   */
+  private rollOver(): void {
+    const day = utcDay(Date.now());
+    if (day !== this.day) {
+      this.day = day;
+      this.todayTotal = emptyTotals();
+      this.todayModels.clear();
+    }
+  }
+}
+
+/**
+ * Start of the next UTC day, when daily totals reset
+ */
+export function nextUtcMidnight(now = Date.now()): number {
+  return (utcDay(now) + 1) * DAY_MS;
+}
+
+/**
+ * Price a request in US dollars
+ */
+export function calculateCost(pricing: ModelPricing, usage: TokenUsage): number {
+  return (
+    (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Estimate usage from the text sent and received, for providers that report none
+ */
+export function estimateUsage(
+  prompt: ChatMessage[],
+  systemPrompt: string | undefined,
+  result: ChatResult
+): TokenUsage {
+  const inputTokens =
+    prompt.reduce((sum, msg) => sum + estimateTokens(msg), 0) +
+    (systemPrompt ? estimateTokens({ content: systemPrompt }) : 0);
+  const reasoningTokens = result.reasoning ? estimateTokens({ content: result.reasoning }) : 0;
+
+  return {
+    inputTokens,
+    outputTokens: estimateTokens(result) + reasoningTokens,
+    reasoningTokens: reasoningTokens || undefined,
+    estimated: true,
+  };
+}
+
+function utcDay(time: number): number {
+  return Math.floor(time / DAY_MS);
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    estimatedRequests: 0,
+  };
+}
+
+function getOrCreate(map: Map<string, UsageTotals>, key: string): UsageTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+function addTotals(totals: UsageTotals, other: UsageTotals): void {
+  totals.requests += other.requests;
+  totals.inputTokens += other.inputTokens;
+  totals.outputTokens += other.outputTokens;
+  totals.reasoningTokens += other.reasoningTokens;
+  totals.estimatedRequests += other.estimatedRequests;
+  if (other.cost !== undefined) {
+    totals.cost = (totals.cost ?? 0) + other.cost;
+  }
+}
+
+function add(totals: UsageTotals, usage: TokenUsage, cost: number | undefined): void {
+  totals.requests++;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.reasoningTokens += usage.reasoningTokens ?? 0;
+  if (usage.estimated) {
+    totals.estimatedRequests++;
+  }
+  if (cost !== undefined) {
+    totals.cost = (totals.cost ?? 0) + cost;
+  }
+}